@@ -41,9 +41,29 @@ const context = await esbuild.context({
 	minify: prod,
 });
 
+// The headless exporter (src/cli.ts), run with node outside Obsidian
+const cliContext = await esbuild.context({
+	banner: {
+		js: "#!/usr/bin/env node\n" + banner,
+	},
+	entryPoints: ["src/cli.ts"],
+	bundle: true,
+	platform: "node",
+	external: [...builtins],
+	format: "cjs",
+	target: "es2018",
+	logLevel: "info",
+	sourcemap: prod ? false : "inline",
+	treeShaking: true,
+	outfile: "cli.js",
+	minify: prod,
+});
+
 if (prod) {
 	await context.rebuild();
+	await cliContext.rebuild();
 	process.exit(0);
 } else {
 	await context.watch();
+	await cliContext.watch();
 }
@@ -1,43 +1,89 @@
 import {
     App,
+    FuzzySuggestModal,
     Menu,
+    Modal,
     Notice,
     Plugin,
     PluginSettingTab,
     Setting,
     TFile,
+    TFolder,
     TAbstractFile,
     FileView,
+    FileSystemAdapter,
     WorkspaceLeaf
 } from 'obsidian';
 import * as path from 'path';
 // Use node's fs.promises API for async file operations
 import * as fs from 'fs/promises';
-import matter from 'gray-matter';
-// Use node's os module to resolve home directory
-import { homedir } from 'os';
-
-// Interface defining the structure of plugin settings
-interface ObsidianHugoExportSettings {
-    postsDirectory: string;
-    staticImagesDirectory: string;
-    debugMode: boolean;
+// Use node's child_process module to run post-export hooks
+import { ChildProcess, spawn } from 'child_process';
+import { ExportFileResult, ExportJob } from './src/export-job';
+import { EXPORT_MANIFEST_FILE, ExportIssue, ExportManifest, HugoExporter, ProcessedNote } from './src/exporter';
+import { ObsidianVault } from './src/obsidian-vault';
+import {
+    AttachmentNaming,
+    CalloutStyle,
+    DEFAULT_PROFILE,
+    DateSource,
+    DEFAULT_SETTINGS,
+    FrontMatterFormat,
+    HugoProfile,
+    LANGUAGE_KEY,
+    LanguageMode,
+    LastmodSource,
+    LinkStyle,
+    MathStyle,
+    NestedTagMode,
+    OUTPUT_MODE_KEY,
+    ObsidianHugoExportSettings,
+    OutputMode,
+    PROFILE_KEY,
+    TEMPLATE_KEY,
+    TEMPLATE_PLACEHOLDERS,
+    TRANSLATION_KEY,
+    UnresolvedLinkPolicy,
+    normalizeSettings
+} from './src/settings';
+import { VaultFile } from './src/vault';
+
+// Settings that hold a directory path (rendered with a resolved path preview)
+type DirectorySettingKey = 'postsDirectory' | 'staticImagesDirectory';
+
+// One line of a line diff: unchanged (' '), removed ('-') or added ('+')
+interface DiffLine {
+    type: ' ' | '-' | '+';
+    text: string;
 }
 
-// Default settings values
-const DEFAULT_SETTINGS: ObsidianHugoExportSettings = {
-    // Sensible default, user should change this
-    postsDirectory: '~/hugo-blog/content/posts',
-    staticImagesDirectory: '~/hugo-blog/static/images',
-    debugMode: false
-};
+// Maximum number of characters kept in the hook log
+const HOOK_LOG_LIMIT = 100000;
+// Milliseconds a timed out hook gets to stop after SIGTERM before it is killed
+const HOOK_KILL_GRACE = 5000;
+// Number of failed notes listed in an export summary notice
+const NOTICE_FAILURE_LIMIT = 5;
 
 export default class ObsidianHugoExportPlugin extends Plugin {
     settings: ObsidianHugoExportSettings;
+    exportManifest: ExportManifest;
+    exporter: HugoExporter;
+    // Watch mode state: notes waiting to be exported, deleted notes whose output should go, and the debounce timer
+    private autoExportQueue = new Map<string, TFile>();
+    private autoExportDeleted = new Set<string>();
+    private autoExportTimer: number | null = null;
+    private autoExportRunning = false;
+    private lastAutoExport = '';
+    private statusBarItem: HTMLElement;
+    // Output of post-export hooks, and the open log views following it
+    hookLog = '';
+    hookLogListeners = new Set<(chunk: string) => void>();
 
     // Called when the plugin is loaded
     async onload() {
         await this.loadSettings(); // Load existing settings or defaults
+        await this.loadExportManifest(); // Load the record of previously exported files
+        this.exporter = new HugoExporter(new ObsidianVault(this.app), this);
 
         // Add command palette command to export the currently active file
         this.addCommand({
@@ -49,6 +95,40 @@ export default class ObsidianHugoExportPlugin extends Plugin {
             }
         });
 
+        // Add command palette command to export the currently active file with a chosen profile
+        this.addCommand({
+            id: 'export-active-to-hugo-profile',
+            name: 'Export Active Note to Hugo Profile...',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                if (file && file.extension === 'md') {
+                    if (!checking) {
+                        this.chooseProfile(profile => {
+                            this.exportFile(file, false, profile).catch(error => this.handleError(error, 'Export Active Note failed'));
+                        });
+                    }
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        // Add command palette command to preview the export of the currently active file
+        this.addCommand({
+            id: 'preview-hugo-export',
+            name: 'Preview Hugo Export of Active Note',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                if (file && file.extension === 'md') {
+                    if (!checking) {
+                        this.previewExport(file).catch(error => this.handleError(error, 'Preview failed'));
+                    }
+                    return true;
+                }
+                return false;
+            }
+        });
+
         // Add command palette command to export selected (currently open) files
         this.addCommand({
             id: 'export-open-notes-to-hugo', // Renamed for clarity
@@ -67,12 +147,123 @@ export default class ObsidianHugoExportPlugin extends Plugin {
             }
         });
 
-        // Register context menu item for markdown files
+        // Add command palette command to export every note in the publish set
+        this.addCommand({
+            id: 'publish-site-to-hugo',
+            name: 'Publish Site to Hugo',
+            callback: () => {
+                this.chooseProfile(profile => {
+                    this.exporter.getPublishSet(profile)
+                        .then(files => this.exportFiles(files, false, profile))
+                        .catch(error => this.handleError(error, 'Publish Site failed'));
+                });
+            }
+        });
+
+        // Add command palette command to incrementally sync the publish set
+        this.addCommand({
+            id: 'sync-publish-set-to-hugo',
+            name: 'Sync Publish Set to Hugo',
+            callback: () => {
+                this.chooseProfile(profile => {
+                    this.syncPublishSet(profile).catch(error => this.handleError(error, 'Sync failed'));
+                });
+            }
+        });
+
+        // Add command palette command to check the publish set for broken links, missing attachments and collisions
+        this.addCommand({
+            id: 'validate-hugo-export',
+            name: 'Validate Hugo Export',
+            callback: () => {
+                this.chooseProfile(profile => {
+                    this.validatePublishSet(profile).catch(error => this.handleError(error, 'Validation failed'));
+                });
+            }
+        });
+
+        // Add command palette command to show the output of post-export hooks
+        this.addCommand({
+            id: 'show-hugo-hook-log',
+            name: 'Show Hugo Export Hook Log',
+            callback: () => {
+                new HookLogModal(this.app, this).open();
+            }
+        });
+
+        // Add command palette command to delete files the plugin wrote for notes that are gone
+        this.addCommand({
+            id: 'clean-up-hugo-orphans',
+            name: 'Clean Up Orphaned Hugo Files',
+            callback: () => {
+                this.cleanUpOrphans().catch(error => this.handleError(error, 'Clean up failed'));
+            }
+        });
+
+        // Add command palette command to roll back the last export
+        this.addCommand({
+            id: 'undo-hugo-export',
+            name: 'Undo Last Hugo Export',
+            callback: () => {
+                this.undoLastExport().catch(error => this.handleError(error, 'Undo failed'));
+            }
+        });
+
+        // Keep manifest entries attached to notes when they are renamed
+        this.registerEvent(
+            this.app.vault.on('rename', (file, oldPath) => {
+                if (!(file instanceof TFile)) {
+                    return;
+                }
+                let moved = false;
+                for (const [profileName, notes] of Object.entries(this.exportManifest.notes)) {
+                    const entry = notes[oldPath];
+                    if (entry) {
+                        this.debug(`Moving ${profileName} manifest entry from ${oldPath} to ${file.path}`);
+                        delete notes[oldPath];
+                        notes[file.path] = entry;
+                        moved = true;
+                    }
+                }
+                if (moved) {
+                    this.saveExportManifest().catch(error => this.handleError(error, 'Saving export manifest failed'));
+                }
+                // Re-export under the new name; the old output becomes an orphan and is removed
+                if (file.extension === 'md') {
+                    this.queueAutoExport(file);
+                }
+            })
+        );
+
+        // Watch mode: re-export changed notes and remove the output of deleted ones
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                if (file instanceof TFile && file.extension === 'md') {
+                    this.queueAutoExport(file);
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('delete', (file) => {
+                if (file instanceof TFile && file.extension === 'md' && this.settings.autoExport) {
+                    this.autoExportQueue.delete(file.path);
+                    this.autoExportDeleted.add(file.path);
+                    this.scheduleAutoExport();
+                }
+            })
+        );
+        this.statusBarItem = this.addStatusBarItem();
+        this.updateStatusBar();
+        this.register(() => this.cancelAutoExport());
+
+        // Register context menu items for markdown files and folders
         this.registerEvent(
             this.app.workspace.on('file-menu', (menu, file) => {
                 // Add the menu item only if the context is a markdown file
                 if (file instanceof TFile && file.extension === 'md') {
                     this.addContextMenu(menu, file);
+                } else if (file instanceof TFolder) {
+                    this.addFolderContextMenu(menu, file);
                 }
             })
         );
@@ -83,19 +274,182 @@ export default class ObsidianHugoExportPlugin extends Plugin {
         this.debug('Obsidian Hugo Export Plugin loaded.');
     }
 
-    // Adds the 'Export to Hugo' option to the file context menu
+    // Queues a changed note for auto-export (if watch mode is on)
+    private queueAutoExport(file: TFile) {
+        if (!this.settings.autoExport) {
+            return;
+        }
+        this.autoExportQueue.set(file.path, file);
+        this.scheduleAutoExport();
+    }
+
+    // (Re)starts the debounce timer; the queue is flushed once changes stop for autoExportDelay seconds
+    private scheduleAutoExport() {
+        if (this.autoExportTimer !== null) {
+            window.clearTimeout(this.autoExportTimer);
+        }
+        this.autoExportTimer = window.setTimeout(() => {
+            this.autoExportTimer = null;
+            this.flushAutoExport().catch(error => this.handleError(error, 'Auto-export failed'));
+        }, this.settings.autoExportDelay * 1000);
+        this.updateStatusBar();
+    }
+
+    // Stops pending auto-exports (on unload or when watch mode is switched off)
+    cancelAutoExport() {
+        if (this.autoExportTimer !== null) {
+            window.clearTimeout(this.autoExportTimer);
+            this.autoExportTimer = null;
+        }
+        this.autoExportQueue.clear();
+        this.autoExportDeleted.clear();
+        this.updateStatusBar();
+    }
+
+    // Exports queued notes that are in their profile's publish set, and deletes output that renames and deletes left behind
+    private async flushAutoExport() {
+        if (this.autoExportRunning) {
+            // A flush is in progress; it reschedules itself for changes that arrived meanwhile
+            return;
+        }
+        this.autoExportRunning = true;
+        const files = [...this.autoExportQueue.values()];
+        const deleted = [...this.autoExportDeleted];
+        this.autoExportQueue.clear();
+        this.autoExportDeleted.clear();
+        this.updateStatusBar();
+
+        // Only orphans created by this run are deleted; older ones the user chose to keep stay
+        const knownOrphans = new Set(this.exportManifest.orphans);
+        let exported = 0;
+        let failed = 0;
+        this.exporter.beginBatch();
+        try {
+            for (const notePath of deleted) {
+                Object.keys(this.exportManifest.notes).forEach(profileName => this.exporter.retireManifestEntry(profileName, notePath));
+            }
+            const publishable: TFile[] = [];
+            for (const file of files) {
+                if (!(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) {
+                    continue;
+                }
+                const profile = this.exporter.getProfileForFile(file);
+                if (!await this.exporter.matchesPublishRules(file, profile)) {
+                    this.debug(`Auto-export skipped ${file.path}: not in the publish set of '${profile.name}'`);
+                    continue;
+                }
+                publishable.push(file);
+            }
+            // Auto-exports report through the status bar instead of a notice per note
+            const results = await new ExportJob(this.exporter, publishable, { incremental: true, concurrency: this.settings.exportConcurrency }).run();
+            for (const result of results) {
+                if (result.status === 'written') {
+                    exported++;
+                    this.reportWarnings(result.file, result.note?.warnings || []);
+                } else if (result.status === 'failed') {
+                    failed++;
+                    console.error(`[Hugo Export ERROR] Auto-export failed: ${result.reason}`);
+                    this.showNotice(`Auto-export failed: ${result.reason}`, 'error');
+                }
+            }
+            await this.saveExportManifest();
+
+            const claimed = new Set(Object.values(this.exportManifest.notes).flatMap(notes => Object.values(notes)).flatMap(entry => entry.outputs));
+            const orphans: string[] = [];
+            for (const orphan of this.exporter.unique(this.exportManifest.orphans)) {
+                if (!knownOrphans.has(orphan) && !claimed.has(orphan) && await this.exporter.pathExists(orphan)) {
+                    orphans.push(orphan);
+                }
+            }
+            if (orphans.length > 0) {
+                await this.deleteOrphans(orphans);
+            }
+            this.debug(`Auto-export finished: ${exported} written, ${failed} failed, ${orphans.length} removed`);
+            if (exported > 0 || orphans.length > 0 || failed > 0) {
+                const time = new Date().toLocaleTimeString();
+                this.lastAutoExport = failed > 0 ? `${failed} failed at ${time}` : `exported at ${time}`;
+            }
+        } finally {
+            await this.exporter.endBatch();
+            this.autoExportRunning = false;
+            if (this.autoExportQueue.size > 0 || this.autoExportDeleted.size > 0) {
+                this.scheduleAutoExport();
+            }
+            this.updateStatusBar();
+        }
+    }
+
+    // Shows pending and last auto-export state in the status bar (hidden when watch mode is off)
+    updateStatusBar() {
+        if (!this.statusBarItem) {
+            return;
+        }
+        this.statusBarItem.style.display = this.settings.autoExport ? '' : 'none';
+        const pending = this.autoExportQueue.size + this.autoExportDeleted.size;
+        if (this.autoExportRunning) {
+            this.statusBarItem.setText('Hugo: exporting...');
+        } else if (pending > 0) {
+            this.statusBarItem.setText(`Hugo: ${pending} pending`);
+        } else {
+            this.statusBarItem.setText(`Hugo: ${this.lastAutoExport || 'watching'}`);
+        }
+    }
+
+    // Adds the 'Export to Hugo' option (one per profile when there are several) to the file context menu
     private addContextMenu(menu: Menu, file: TFile) {
+        for (const profile of this.getMenuProfiles()) {
+            menu.addItem((item) => {
+                item.setTitle(profile ? `Export to Hugo → ${profile.name}` : 'Export to Hugo')
+                    .setIcon('download') // Use a relevant icon
+                    .onClick(async () => {
+                        // Export the specific file clicked on, handle errors
+                        await this.exportFile(file, false, profile).catch(error => this.handleError(error, `Export failed for ${file.name}`));
+                    });
+            });
+        }
         menu.addItem((item) => {
-            item.setTitle('Export to Hugo')
-                .setIcon('download') // Use a relevant icon
+            item.setTitle('Preview Hugo export')
+                .setIcon('eye')
                 .onClick(async () => {
-                    // Export the specific file clicked on, handle errors
-                    await this.exportFile(file).catch(error => this.handleError(error, `Export failed for ${file.name}`));
+                    await this.previewExport(file).catch(error => this.handleError(error, `Preview failed for ${file.name}`));
                 });
         });
         this.debug(`Added context menu for ${file.name}`);
     }
 
+    // Adds the 'Export folder to Hugo' option (one per profile when there are several) to the folder context menu
+    private addFolderContextMenu(menu: Menu, folder: TFolder) {
+        for (const menuProfile of this.getMenuProfiles()) {
+            menu.addItem((item) => {
+                item.setTitle(menuProfile ? `Export folder to Hugo → ${menuProfile.name}` : 'Export folder to Hugo')
+                    .setIcon('download')
+                    .onClick(async () => {
+                        const profile = menuProfile || this.exporter.getDefaultProfile();
+                        // Every note in the folder (recursively), except notes that opted out via the publish flag
+                        const files = this.app.vault.getMarkdownFiles()
+                            .filter(file => this.exporter.isInFolder(file, folder.path) && this.exporter.getPublishFlag(file, profile) !== false);
+                        await this.exportFiles(this.exporter.expandWithLinkedNotes(files, profile), false, profile)
+                            .catch(error => this.handleError(error, `Export failed for folder ${folder.path}`));
+                    });
+            });
+        }
+        this.debug(`Added folder context menu for ${folder.path}`);
+    }
+
+    // Profiles to offer in context menus: a single undefined entry (use the note's profile) unless there are several
+    private getMenuProfiles(): (HugoProfile | undefined)[] {
+        return this.settings.profiles.length > 1 ? this.settings.profiles : [undefined];
+    }
+
+    // Runs the callback with the only profile, or lets the user pick one when there are several
+    private chooseProfile(callback: (profile: HugoProfile) => void) {
+        if (this.settings.profiles.length === 1) {
+            callback(this.settings.profiles[0]);
+            return;
+        }
+        new ProfileSuggestModal(this.app, this.settings.profiles, callback).open();
+    }
+
     // Gets all currently open Markdown files in the workspace
     private getOpenMarkdownFiles(): TFile[] {
         const markdownFiles: TFile[] = [];
@@ -112,460 +466,409 @@ export default class ObsidianHugoExportPlugin extends Plugin {
         return markdownFiles;
     }
 
-    // Exports multiple files, showing progress notices
-    private async exportFiles(files: TFile[]) {
+    // Exports multiple files with a progress dialog that can cancel the export; incremental exports skip unchanged notes.
+    // Without a profile, every note is exported with its own (front matter or default) profile.
+    // Returns false if strict mode aborted the export.
+    private async exportFiles(files: VaultFile[], incremental = false, profile?: HugoProfile): Promise<boolean> {
         const total = files.length;
         if (total === 0) {
             this.showNotice("No markdown files selected or open to export.", 'error');
-            return;
+            return true;
+        }
+        const errorCount = await this.countStrictModeErrors(files, profile);
+        if (errorCount > 0) {
+            this.showNotice(`Export aborted: strict mode found ${errorCount} error(s). See '${this.settings.validationReportPath}'.`, 'error');
+            return false;
+        }
+
+        // The whole job can be undone as one
+        const job = new ExportJob(this.exporter, files, { incremental, profile, concurrency: this.settings.exportConcurrency });
+        // A single note is over before a dialog would be readable
+        const progress = total > 1 ? new ExportProgressModal(this.app, job) : null;
+        progress?.open();
+        job.options.onProgress = (result, done) => progress?.update(result, done);
+        let results: ExportFileResult[];
+        try {
+            results = await job.run();
+        } finally {
+            progress?.close();
+            await this.saveExportManifest();
+        }
+
+        // Files written per profile, handed to that profile's hooks
+        const written = new Map<HugoProfile, string[]>();
+        for (const result of results) {
+            if (result.status === 'written') {
+                const outputs = this.exporter.getManifestNotes(result.profile.name)[result.file.path]?.outputs || [];
+                written.set(result.profile, [...(written.get(result.profile) || []), ...outputs]);
+                this.reportWarnings(result.file, result.note?.warnings || []);
+            } else if (result.status === 'failed') {
+                console.error(`[Hugo Export ERROR] ${result.reason}`);
+            }
         }
 
-        let successCount = 0;
-        this.showNotice(`Starting export of ${total} files...`, 'success');
+        // Run the hooks of every profile that got new output, unless the export was cancelled
+        const hookFailures: string[] = [];
+        if (!job.cancelled) {
+            for (const [hookProfile, outputs] of written) {
+                hookFailures.push(...await this.runPostExportHooks(hookProfile, outputs));
+            }
+        }
+
+        // Show final summary notice
+        const count = (status: ExportFileResult['status']) => results.filter(result => result.status === status).length;
+        const successCount = count('written') + count('unchanged');
+        const failures = results.filter(result => result.status === 'failed');
+        const lines = [`Exported ${successCount}/${total} files` + (count('unchanged') > 0 ? ` (${count('unchanged')} unchanged).` : '.')];
+        if (job.cancelled) {
+            lines.push(`Cancelled: ${count('skipped')} file(s) skipped and hooks not run.`);
+        }
+        lines.push(...failures.slice(0, NOTICE_FAILURE_LIMIT).map(result => result.reason || `Export failed for ${result.file.name}`));
+        if (failures.length > NOTICE_FAILURE_LIMIT) {
+            lines.push(`...and ${failures.length - NOTICE_FAILURE_LIMIT} more failed (see the console).`);
+        }
+        lines.push(...hookFailures);
+        const ok = successCount === total && hookFailures.length === 0;
+        this.showNotice(lines.join('\n'), ok ? 'success' : 'error', ok ? 3000 : 5000);
+        this.debug(`Batch export completed. Written: ${count('written')}, Unchanged: ${count('unchanged')}, Failed: ${failures.length}, Skipped: ${count('skipped')}, Hook failures: ${hookFailures.length}`);
+        return true;
+    }
 
-        // Loop through each file and export it
-        for (const [index, file] of files.entries()) {
+    // Runs a profile's post-export hooks in order in the site root, stopping at the first failure; returns the failure messages
+    private async runPostExportHooks(profile: HugoProfile, outputs: string[]): Promise<string[]> {
+        const failures: string[] = [];
+        if (profile.postExportHooks.length === 0 || outputs.length === 0) {
+            return failures;
+        }
+        const cwd = this.exporter.getSiteRoot(profile);
+        const exported = this.exporter.unique(outputs);
+        for (const [index, command] of profile.postExportHooks.entries()) {
+            this.appendHookLog(`\n$ ${command}\n`);
             try {
-                await this.exportFile(file);
-                successCount++;
-                // Optional: Show progress notice (can be noisy for many files)
-                // this.showNotice(`Exported ${index + 1}/${total}: ${file.name}`, 'success', 1500);
+                await this.runHook(command, cwd, profile, exported);
+                this.appendHookLog(`[done]\n`);
             } catch (error) {
-                // Log specific error but continue with others
-                this.handleError(error, `Failed to export ${index + 1}/${total}: ${file.name}`);
+                this.appendHookLog(`[${error.message}]\n`);
+                console.error(`[Hugo Export ERROR] Hook '${command}' failed:`, error);
+                failures.push(`Hook '${command}' failed: ${error.message}`);
+                // Later hooks usually depend on earlier ones (e.g. commit after build)
+                const skipped = profile.postExportHooks.length - index - 1;
+                if (skipped > 0) {
+                    failures.push(`Skipped ${skipped} remaining hook(s) of '${profile.name}'.`);
+                }
+                break;
             }
         }
+        return failures;
+    }
 
-        // Show final summary notice
-        const message = `Exported ${successCount}/${total} files.`;
-        this.showNotice(message, successCount === total ? 'success' : 'error', successCount === total ? 3000 : 5000);
-        this.debug(`Batch export completed. Success: ${successCount}, Failed: ${total - successCount}`);
+    // Runs a hook through the local shell, passing the exported files as environment variables and on stdin
+    private runHook(command: string, cwd: string, profile: HugoProfile, exported: string[]): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(command, {
+                cwd,
+                shell: true,
+                // In a process group of its own (POSIX), so a timeout can stop what the shell started too
+                detached: process.platform !== 'win32',
+                env: {
+                    ...process.env,
+                    HUGO_EXPORT_PROFILE: profile.name,
+                    HUGO_EXPORT_SITE_ROOT: cwd,
+                    HUGO_EXPORT_COUNT: String(exported.length),
+                    // One absolute path per line
+                    HUGO_EXPORT_FILES: exported.join('\n'),
+                },
+            });
+            const timer = window.setTimeout(() => {
+                this.killHook(child);
+                reject(new Error(`timed out after ${this.settings.hookTimeout}s`));
+            }, this.settings.hookTimeout * 1000);
+
+            child.stdout.on('data', (chunk: Buffer) => this.appendHookLog(chunk.toString()));
+            child.stderr.on('data', (chunk: Buffer) => this.appendHookLog(chunk.toString()));
+            // Hooks that don't read stdin close it early; that is not an error
+            child.stdin.on('error', () => undefined);
+            child.stdin.end(exported.join('\n') + '\n');
+
+            child.on('error', (error) => {
+                window.clearTimeout(timer);
+                reject(error);
+            });
+            child.on('close', (code, signal) => {
+                window.clearTimeout(timer);
+                if (code === 0) {
+                    resolve();
+                } else {
+                    reject(new Error(signal ? `killed by ${signal}` : `exit code ${code}`));
+                }
+            });
+        });
+    }
+
+    // Stops a hook along with the commands it started (e.g. 'hugo' or 'git push'), not just the shell running them
+    private killHook(child: ChildProcess) {
+        const pid = child.pid;
+        if (pid === undefined) {
+            // The shell never started ('error' reports why)
+            return;
+        }
+        if (process.platform === 'win32') {
+            // Windows has no process groups; taskkill /T /F ends the whole process tree right away
+            spawn('taskkill', ['/pid', String(pid), '/T', '/F']).on('error', () => child.kill());
+            return;
+        }
+        const signalHook = (signal: NodeJS.Signals) => {
+            try {
+                process.kill(-pid, signal);
+            } catch (error) {
+                // ESRCH: every process of the group has exited
+                if (error.code !== 'ESRCH') {
+                    this.debug(`Could not send ${signal} to the process group of hook ${pid}: ${error.message}`);
+                }
+                if (child.exitCode === null && child.signalCode === null) {
+                    child.kill(signal);
+                }
+            }
+        };
+        signalHook('SIGTERM');
+        // Commands that ignore SIGTERM don't get to run on after the export reported the timeout
+        window.setTimeout(() => signalHook('SIGKILL'), HOOK_KILL_GRACE);
     }
 
-    // Exports a single file (either specified or the active one)
-    async exportFile(file?: TFile): Promise<void> {
+    // Appends hook output to the log and streams it to open log views
+    private appendHookLog(chunk: string) {
+        this.hookLog = (this.hookLog + chunk).slice(-HOOK_LOG_LIMIT);
+        this.hookLogListeners.forEach(listener => listener(chunk));
+    }
+
+    // Exports a single file (either specified or the active one) and shows where it went
+    async exportFile(file?: VaultFile, incremental = false, profile?: HugoProfile): Promise<ExportFileResult> {
         // Determine the target file (passed argument or active file)
         const targetFile = file || this.app.workspace.getActiveFile();
         if (!targetFile) {
             throw new Error('No file selected or active for export.');
         }
-        if (targetFile.extension !== 'md') {
-             throw new Error(`Cannot export non-markdown file: ${targetFile.name}`);
+        const errorCount = await this.countStrictModeErrors([targetFile], profile);
+        if (errorCount > 0) {
+            throw new Error(`Strict mode found ${errorCount} error(s) in '${targetFile.name}'. See '${this.settings.validationReportPath}'.`);
         }
 
-        this.debug(`Starting export for: ${targetFile.path}`);
+        const [result] = await new ExportJob(this.exporter, [targetFile], { incremental, profile, concurrency: 1 }).run();
+        await this.saveExportManifest();
+        if (result.status === 'failed') {
+            throw new Error(result.reason);
+        }
+        if (result.status === 'written' && result.note) {
+            // Name shown to the user, e.g. 'posts/My-Note.md' or 'recipes/my-note/index.md'
+            const safeFilename = path.relative(this.exporter.getContentDirectory(result.profile), result.note.target.contentPath);
+            this.showNotice(`Exported '${targetFile.name}' to '${safeFilename}'`, 'success');
+            // Surface anything the pipeline flagged along the way
+            this.reportWarnings(targetFile, result.note.warnings);
+        }
+        return result;
+    }
 
+    // Runs the pipeline without writing anything and shows the result next to the currently exported file
+    private async previewExport(file: TFile) {
+        this.debug(`Previewing export for: ${file.path}`);
+        const content = await this.app.vault.read(file);
+        const note = await this.exporter.processMarkdown(file, content, this.exporter.getProfileForFile(file), true);
+        let existing: string | null = null;
         try {
-            // Read the markdown content from the vault
-            const content = await this.app.vault.read(targetFile);
-            // Process markdown (front matter, links, images)
-            const processedContent = await this.processMarkdown(targetFile, content);
-            // Write the processed content to the Hugo directory
-            await this.writeHugoFile(targetFile, processedContent);
-            // Success notice is shown in writeHugoFile for single file exports
-        } catch (error) {
-            // Catch and re-throw errors for centralized handling if needed, or handle directly
-             this.debug(`Error during exportFile for ${targetFile.name}: ${error.message}`);
-            // Re-throwing allows the caller (e.g., exportFiles) to catch and report
-            throw new Error(`Export failed for ${targetFile.name}: ${error.message}`);
-        }
-    }
-
-    // Resolves a path string, handling '~' and ensuring it's absolute
-    private resolvePath(rawPath: string): string {
-        let resolved = rawPath;
-        // Expand home directory ('~')
-        if (rawPath.startsWith('~')) {
-            resolved = path.join(homedir(), rawPath.slice(1));
-        }
-        // Use path.resolve to ensure the path is absolute
-        return path.resolve(resolved);
-    }
-
-    // Processes the raw markdown content for Hugo compatibility
-    private async processMarkdown(file: TFile, content: string): Promise<string> {
-        this.debug(`Processing markdown for: ${file.path}`);
-        // Parse front matter and body using gray-matter
-        const { data: existingFrontMatter, content: body } = matter(content);
-        // Generate or update front matter
-        const finalFrontMatter = this.generateFrontMatter(file, existingFrontMatter);
-        // Process the main content (links, images, handling code blocks)
-        const processedBody = await this.processContent(file, body);
-        // Reassemble the file with updated front matter and processed body
-        return matter.stringify(processedBody, finalFrontMatter);
-    }
-
-    // Generates the Hugo front matter, merging existing data
-    private generateFrontMatter(file: TFile, existingData: any): object {
-        this.debug(`Generating front matter for: ${file.name}`);
-        // Ensure title exists, default to filename without extension
-        const title = existingData.title || path.parse(file.name).name;
-        // Ensure date exists, default to current ISO timestamp
-        const date = existingData.date || new Date().toISOString();
-
-        // Merge default/generated fields with existing front matter
-        const frontMatter = {
-            title: title,
-            date: date,
-            ...existingData, // Spread existing data after defaults ensures user values override if needed
-        };
-        this.debug(`Final front matter for ${file.name}: ${JSON.stringify(frontMatter)}`);
-        return frontMatter;
-    }
-
-   // Processes the body content: masks code blocks, then handles images and wikilinks
-    private async processContent(file: TFile, content: string): Promise<string> {
-        this.debug(`Processing content body for: ${file.name}`);
-
-        const fencedCodeBlocks: string[] = [];
-        const inlineCodeBlocks: string[] = [];
-        let processedContent = content;
-        const placeholderPrefix = `%%HUGOPLUGIN_CODEBLOCK%%`; // Use a more unique prefix
-
-        // --- STEP 1: Mask Fenced Code Blocks ---
-        const fencedCodeRegex = /^ {0,3}(````+|~~~+) *(.*?)\n([\s\S]*?)\n^ {0,3}\1 *$/gm;
-        processedContent = processedContent.replace(fencedCodeRegex, (match) => {
-            const placeholder = `${placeholderPrefix}_FENCED_${fencedCodeBlocks.length}%%`;
-            fencedCodeBlocks.push(match);
-            this.debug(`Masking fenced code block with placeholder: ${placeholder}`);
-            return placeholder;
-        });
-
-        // --- STEP 2: Mask Inline Code Blocks ---
-        const inlineCodeRegex = /`([^`\n]+?)`/g;
-        processedContent = processedContent.replace(inlineCodeRegex, (match) => {
-            if (match.includes(placeholderPrefix)) { // Avoid double-masking if regex catches part of fenced placeholder
-                 return match;
-            }
-            const placeholder = `${placeholderPrefix}_INLINE_${inlineCodeBlocks.length}%%`;
-            inlineCodeBlocks.push(match);
-            this.debug(`Masking inline code block with placeholder: ${placeholder}`);
-            return placeholder;
-        });
+            existing = await fs.readFile(note.target.contentPath, 'utf8');
+        } catch {
+            // Not exported yet
+        }
+        new ExportPreviewModal(this.app, this, file, note, existing).open();
+    }
 
-        this.debug(`Content after masking: ${processedContent.substring(0, 200)}...`);
-
-        // --- STEP 3: Process Images on Masked Content ---
-        const imagePromises: Promise<{ match: string, replacement: string }>[] = [];
-        const wikiImageRegex = /!\[\[([^\]\n]+?)\]\]/g; // Non-greedy match inside [[ ]]
-        const markdownImageRegex = /!\[([^\]]*)\]\(([^)\s]+?)(?:\s+"[^"]+")?\)/g; // Non-greedy path
-
-        // Gather promises for wiki-style images
-        for (const match of processedContent.matchAll(wikiImageRegex)) {
-            const fullMatch = match[0];
-            const imageName = match[1].trim();
-            this.debug(`Found wiki image reference (post-masking): ${fullMatch}`);
-            imagePromises.push(
-                this.handleImage(file, imageName, path.parse(imageName).name)
-                    .then(hugoImageMarkdown => ({ match: fullMatch, replacement: hugoImageMarkdown }))
-                    .catch(error => {
-                        this.debug(`Error handling wiki image ${imageName}: ${error.message}`);
-                        return { match: fullMatch, replacement: `<!-- ERROR PROCESSING WIKI IMAGE: ${imageName} -->` };
-                    })
-            );
-        }
-
-        // Gather promises for markdown-style images
-        for (const match of processedContent.matchAll(markdownImageRegex)) {
-            const fullMatch = match[0];
-            const altText = match[1].trim();
-            const imagePath = match[2].trim();
-             this.debug(`Found markdown image reference (post-masking): ${fullMatch}`);
-            if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
-                this.debug(`Skipping external image: ${imagePath}`);
-                continue;
+    // Computes a line diff (longest common subsequence) between the old and new text
+    diffLines(oldText: string, newText: string): DiffLine[] {
+        const oldLines = oldText.split('\n');
+        const newLines = newText.split('\n');
+        // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+        const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+        for (let i = oldLines.length - 1; i >= 0; i--) {
+            for (let j = newLines.length - 1; j >= 0; j--) {
+                lengths[i][j] = oldLines[i] === newLines[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
             }
-            imagePromises.push(
-                this.handleImage(file, imagePath, altText)
-                    .then(hugoImageMarkdown => ({ match: fullMatch, replacement: hugoImageMarkdown }))
-                    .catch(error => {
-                        this.debug(`Error handling markdown image ${imagePath}: ${error.message}`);
-                        return { match: fullMatch, replacement: `<!-- ERROR PROCESSING MARKDOWN IMAGE: ${imagePath} -->` };
-                    })
-            );
-        }
-
-        // Wait for all image processing to complete
-        const imageResults = await Promise.all(imagePromises);
-
-        // Replace image syntax with Hugo links (descending order to avoid index issues)
-        imageResults.sort((a, b) => (processedContent.lastIndexOf(b.match) - processedContent.lastIndexOf(a.match)));
-        for (const result of imageResults) {
-            // Check if the match still exists; simple replace might fail with overlapping matches
-            const index = processedContent.lastIndexOf(result.match);
-            if (index !== -1) {
-                 // More robust replacement using index
-                processedContent = processedContent.substring(0, index) + result.replacement + processedContent.substring(index + result.match.length);
-                this.debug(`Replaced image match ${result.match} with ${result.replacement}`);
+        }
+        const diff: DiffLine[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < oldLines.length && j < newLines.length) {
+            if (oldLines[i] === newLines[j]) {
+                diff.push({ type: ' ', text: oldLines[i] });
+                i++;
+                j++;
+            } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+                diff.push({ type: '-', text: oldLines[i++] });
             } else {
-                 this.debug(`Skipped image replacement for ${result.match} as it was no longer found (index ${index})`);
-            }
-        }
-
-        // --- STEP 4: Process Wikilinks on Masked Content ---
-        // Regex explanation:
-        // \[\[         -> Match [[ literally
-        // ([^|\]\n]+) -> Capture group 1: Link target (anything not |, ], or newline)
-        // (\|          -> Optional Capture group 2: Starts with |
-        // [^\]\n]+    -> Display text (anything not ] or newline)
-        // )?           -> Makes group 2 optional
-        // \]\]         -> Match ]] literally
-        const wikilinkRegex = /\[\[([^|\]\n]+?)(\|[^\]\n]+?)?\]\]/g; // Use non-greedy match for target
-        processedContent = processedContent.replace(wikilinkRegex, (_, linkTarget, linkTextWithPipe) => {
-            const target = linkTarget.trim();
-            // Extract text after pipe if it exists, otherwise use the target
-            const text = linkTextWithPipe ? linkTextWithPipe.slice(1).trim() : target;
-
-            // Skip processing if it looks like a file path/extension or external URL
-            if (/\.\w{2,5}$/.test(target) || target.startsWith('http:') || target.startsWith('https://') || target.startsWith('/')) {
-                this.debug(`Skipping wikilink processing for potential file/URL/absolute link: [[${target}]]`);
-                // Return the original wikilink syntax
-                return `[[${linkTarget}${linkTextWithPipe || ''}]]`;
-            }
-
-            const slug = this.slugify(target);
-            // Common Hugo structure: /section/slug/ - adjust if needed
-            const hugoLink = `[${text}](/posts/${slug}/)`;
-            this.debug(`Processed wikilink (post-masking): [[${target}]] -> ${hugoLink}`);
-            return hugoLink;
-        });
-
-
-        // --- STEP 5: Restore Inline Code Blocks (in reverse order) ---
-        for (let i = inlineCodeBlocks.length - 1; i >= 0; i--) {
-            const placeholder = `${placeholderPrefix}_INLINE_${i}%%`;
-            // Use function replace to avoid issues with special characters ($&) in the code
-             processedContent = processedContent.replace(placeholder, () => inlineCodeBlocks[i]);
-            this.debug(`Restored inline code block for placeholder: ${placeholder}`);
+                diff.push({ type: '+', text: newLines[j++] });
+            }
         }
-
-        // --- STEP 6: Restore Fenced Code Blocks (in reverse order) ---
-        for (let i = fencedCodeBlocks.length - 1; i >= 0; i--) {
-            const placeholder = `${placeholderPrefix}_FENCED_${i}%%`;
-             processedContent = processedContent.replace(placeholder, () => fencedCodeBlocks[i]);
-            this.debug(`Restored fenced code block for placeholder: ${placeholder}`);
+        while (i < oldLines.length) {
+            diff.push({ type: '-', text: oldLines[i++] });
         }
-
-
-        this.debug(`Finished processing content body for: ${file.name}`);
-        return processedContent;
+        while (j < newLines.length) {
+            diff.push({ type: '+', text: newLines[j++] });
+        }
+        return diff;
     }
 
+    // Validates the publish set of a profile, writes the report note and opens it
+    private async validatePublishSet(profile: HugoProfile) {
+        const files = await this.exporter.getPublishSet(profile);
+        const issues = await this.exporter.validate(files, profile);
+        const report = await this.writeValidationReport(issues, files.length, profile);
+        await this.app.workspace.getLeaf(false).openFile(report);
+        const errorCount = issues.filter(issue => issue.severity === 'error').length;
+        const message = issues.length === 0
+            ? `No problems found in ${files.length} notes.`
+            : `Found ${errorCount} error(s) and ${issues.length - errorCount} warning(s) in ${files.length} notes.`;
+        this.showNotice(message, errorCount > 0 ? 'error' : 'success');
+    }
 
-    // Handles finding, copying, and generating markdown for a single image
-    private async handleImage(sourceNote: TFile, imageNameOrPath: string, altText: string): Promise<string> {
-        this.debug(`Handling image: '${imageNameOrPath}' referenced in ${sourceNote.name}`);
-        try {
-            // Find the absolute path to the source image file within the vault
-            const sourceImagePath = await this.findImage(sourceNote, imageNameOrPath);
-            this.debug(`Found image source at: ${sourceImagePath}`);
-
-            // Determine the destination filename (use base name to flatten structure)
-            const imageBasename = path.basename(imageNameOrPath);
-            const safeImageBasename = this.sanitizeFilename(imageBasename);
-            const destinationDir = this.resolvePath(this.settings.staticImagesDirectory);
-            const destinationPath = path.join(destinationDir, safeImageBasename);
-             this.debug(`Image destination path: ${destinationPath}`);
-
-            // Copy the image file to the Hugo static directory
-            await this.copyImage(sourceImagePath, destinationPath);
-
-            // Generate the Hugo markdown image link (e.g., ![alt text](/images/image.png))
-            const hugoImageUrl = `/images/${encodeURIComponent(safeImageBasename)}`;
-            // Use provided alt text, fallback to sanitized filename without extension
-            const finalAltText = altText || path.parse(safeImageBasename).name;
-            const markdown = `![${finalAltText}](${hugoImageUrl})`;
-            this.debug(`Generated Hugo image markdown: ${markdown}`);
-            return markdown;
-
-        } catch (error) {
-             this.debug(`Image handling failed for '${imageNameOrPath}': ${error.message}`);
-            throw new Error(`Failed to process image '${imageNameOrPath}': ${error.message}`);
+    // In strict mode, validates the notes about to be exported and returns the number of errors (writing the report if there are any)
+    private async countStrictModeErrors(files: VaultFile[], profile?: HugoProfile): Promise<number> {
+        if (!this.settings.strictMode) {
+            return 0;
+        }
+        const issues = await this.exporter.validate(files, profile);
+        const errorCount = issues.filter(issue => issue.severity === 'error').length;
+        if (errorCount > 0) {
+            await this.writeValidationReport(issues, files.length, profile);
         }
+        return errorCount;
     }
 
-    // Finds the absolute path of an image file, searching common locations in the correct order
-    private async findImage(sourceNote: TFile, imageNameOrPath: string): Promise<string> {
-        this.debug(`Searching for image '${imageNameOrPath}' relative to note '${sourceNote.path}'`);
-        const vaultBasePath = (this.app.vault.adapter as any).basePath; // Get vault's absolute base path
-
-        // Get components of the source note's path
-        const noteDir = path.dirname(sourceNote.path); // e.g., 'posts' or '.' if in root
-        const noteBaseName = sourceNote.basename; // e.g., 'N_1'
-
-        // Define potential relative locations to search within the vault
-        const searchBases = [
-            // 1. Subdirectory named after the note, inside the note's directory (PRIMARY location)
-            path.join(noteDir, noteBaseName),
-            // 2. Same directory as the note
-            noteDir,
-            // 3. Vault root
+    // Writes the issues to the report note (replacing its content) with links to the nearest heading above each problem
+    private async writeValidationReport(issues: ExportIssue[], noteCount: number, profile?: HugoProfile): Promise<TFile> {
+        const reportPath = this.settings.validationReportPath.trim() || DEFAULT_SETTINGS.validationReportPath;
+        const errors = issues.filter(issue => issue.severity === 'error');
+        const warnings = issues.filter(issue => issue.severity === 'warning');
+        const scope = profile ? `profile '${profile.name}'` : 'each note with its own profile';
+        const lines = [
+            '# Hugo Export Report',
             '',
-            // 4. Common attachment folders (relative to vault root)
-            'Attachments', // Obsidian default often suggests this
-            'assets',
-            'images',
-            // Add any other custom attachment folders you might use here
-            // e.g., 'media', 'files'
+            `Checked ${noteCount} notes (${scope}) on ${new Date().toLocaleString()}: ${errors.length} error(s), ${warnings.length} warning(s).`,
         ];
-        // Remove duplicates and ensure paths are relative (handle '.' for root)
-        const uniqueSearchBases = [...new Set(searchBases)].map(p => (p === '.' ? '' : p));
-        this.debug(`Effective search bases relative to vault: [${uniqueSearchBases.map(b => b || '<root>').join(', ')}]`);
-
-
-        // Check if imageNameOrPath itself appears absolute relative to the vault (starts with /)
-        if (imageNameOrPath.startsWith('/')) {
-             const absoluteVaultPath = path.join(vaultBasePath, imageNameOrPath.substring(1));
-              try {
-                  await fs.access(absoluteVaultPath, fs.constants.R_OK);
-                  this.debug(`Found image at absolute vault path (treated as root relative): ${absoluteVaultPath}`);
-                  return absoluteVaultPath;
-              } catch {
-                  this.debug(`Image not found at absolute vault path (treated as root relative): ${absoluteVaultPath}`);
-              }
-        }
-
-        // Iterate through search bases and construct potential absolute paths
-        for (const base of uniqueSearchBases) {
-            const potentialPath = path.join(vaultBasePath, base, imageNameOrPath);
-            try {
-                await fs.access(potentialPath, fs.constants.R_OK);
-                this.debug(`Found image at (Base: '${base || '<root>'}'): ${potentialPath}`);
-                return potentialPath; // Return the first found path
-            } catch (err) {
-                this.debug(`Image not found at (Base: '${base || '<root>'}'): ${potentialPath}`);
-            }
-        }
-
-        // Check if imageNameOrPath includes directory separators itself (e.g., "Folder/image.png")
-        // This handles cases like ![[Folder/My Image]] or ![alt](Folder/MyImage.png)
-         if (imageNameOrPath.includes('/') || imageNameOrPath.includes('\\')) {
-             // Try resolving relative to the NOTE'S directory first
-             const relativeToNotePath = path.join(vaultBasePath, noteDir, imageNameOrPath);
-             try {
-                 await fs.access(relativeToNotePath, fs.constants.R_OK);
-                 this.debug(`Found image via path relative to note dir: ${relativeToNotePath}`);
-                 return relativeToNotePath;
-             } catch (err) {
-                 this.debug(`Image not found via path relative to note dir: ${relativeToNotePath}`);
-             }
-
-            // As a fallback, try resolving it directly relative to the VAULT root
-            const directVaultPath = path.join(vaultBasePath, imageNameOrPath);
-             try {
-                 await fs.access(directVaultPath, fs.constants.R_OK);
-                 this.debug(`Found image via direct vault path resolution: ${directVaultPath}`);
-                 return directVaultPath;
-             } catch (err) {
-                 this.debug(`Image not found via direct vault path resolution: ${directVaultPath}`);
-             }
-         }
-
-        // If all searches fail, throw a detailed error
-        const searchedPathsDescription = uniqueSearchBases
-            .map(base => `'${path.join(base || '<root>', imageNameOrPath)}'`)
-            .join(', ');
-        throw new Error(`Image not found: '${imageNameOrPath}'. Searched standard locations based on note '${sourceNote.path}': ${searchedPathsDescription}. Also checked relative/absolute paths.`);
-    }
-
-
-    // Copies an image file from source to destination, creating directories if needed
-    private async copyImage(source: string, dest: string): Promise<void> {
-        const destDir = path.dirname(dest);
-        try {
-            // Ensure the destination directory exists
-            await fs.mkdir(destDir, { recursive: true });
-            this.debug(`Ensured destination directory exists: ${destDir}`);
-
-            // Check if destination file already exists
-            let destExists = false;
-            try {
-                 await fs.access(dest);
-                 destExists = true;
-            } catch {
-                 // Destination file does not exist
+        for (const [title, group] of [['Errors', errors], ['Warnings', warnings]] as [string, ExportIssue[]][]) {
+            if (group.length > 0) {
+                lines.push('', `## ${title}`, '', ...group.map(issue => `- ${this.getIssueLink(issue, reportPath)}: ${this.formatIssueMessage(issue.message)}`));
             }
+        }
+        const content = lines.join('\n') + '\n';
 
-            // Optional: Add check to compare file stats (size, mtime) to avoid unnecessary copies
-            // For simplicity, this version overwrites if exists, but checks first
-            if(destExists) {
-                // Simple check: Just log that it exists, could compare stats here
-                 this.debug(`Image already exists at destination: ${dest}. Overwriting.`);
-                 // To skip copy if exists: return;
-            }
+        const existing = this.app.vault.getAbstractFileByPath(reportPath);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            return existing;
+        }
+        const folder = path.posix.dirname(reportPath);
+        if (folder !== '.' && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(reportPath, content);
+    }
 
-            // Copy the file (will overwrite if destExists is true)
-            await fs.copyFile(source, dest);
-            this.debug(`Successfully copied image from ${source} to ${dest}`);
-        } catch (error) {
-            this.debug(`Image copy failed: ${error.message}`);
-            throw new Error(`Failed to copy image from '${source}' to '${dest}': ${error.message}`);
+    // Link from the report to the line of an issue: the nearest heading above it, labeled with the path and line number
+    private getIssueLink(issue: ExportIssue, reportPath: string): string {
+        const label = issue.line > 0 ? `${issue.file}:${issue.line}` : issue.file;
+        const file = this.app.vault.getAbstractFileByPath(issue.file);
+        if (!(file instanceof TFile)) {
+            return label;
         }
+        const headings = this.app.metadataCache.getFileCache(file)?.headings || [];
+        // Cache lines are 0-based
+        const heading = headings.filter(candidate => issue.line > 0 && candidate.position.start.line <= issue.line - 1).pop();
+        // Characters that can't appear in a link subpath; Obsidian matches headings without them
+        const subpath = heading ? `#${heading.heading.replace(/[#^|[\]\\:%]/g, ' ').replace(/\s+/g, ' ').trim()}` : '';
+        return `[[${this.app.metadataCache.fileToLinktext(file, reportPath)}${subpath}|${label}]]`;
     }
 
-    // Writes the processed markdown content to the Hugo posts directory
-    private async writeHugoFile(originalFile: TFile, content: string): Promise<void> {
-        const postsDir = this.resolvePath(this.settings.postsDirectory);
-        const safeFilename = this.sanitizeFilename(originalFile.basename) + '.md'; // Use basename and add .md extension
-        const destPath = path.join(postsDir, safeFilename);
+    // Wraps the wikilinks quoted in an issue message in code, so the report doesn't turn them into (broken) links
+    private formatIssueMessage(message: string): string {
+        return message.replace(/!?\[\[[^\]\n]*\]\]/g, match => `\`${match}\``);
+    }
 
-        this.debug(`Attempting to write Hugo file to: ${destPath}`);
+    // Exports the publish set incrementally, then offers to delete output of notes that left it
+    private async syncPublishSet(profile: HugoProfile) {
+        const files = await this.exporter.getPublishSet(profile);
+        if (!await this.exportFiles(files, true, profile)) {
+            return;
+        }
 
-        try {
-            // Ensure the Hugo posts directory exists
-            await fs.mkdir(postsDir, { recursive: true });
-             this.debug(`Ensured posts directory exists: ${postsDir}`);
-
-            // Write the processed content to the destination file
-            await fs.writeFile(destPath, content, 'utf8'); // Specify encoding
-            // Only show notice here for single-file exports via context menu or command palette
-            // Batch exports show summary notice in exportFiles()
-            // We need a way to distinguish call contexts if we want different notice behavior
-            if (!(this.app.workspace.getActiveFile() !== originalFile && this.getOpenMarkdownFiles().length > 1)) {
-                // Simple heuristic: assume batch if active file isn't the one written AND more than one MD file open
-                // This isn't perfect. A dedicated flag passed down would be better.
-                 this.showNotice(`Exported '${originalFile.name}' to '${safeFilename}'`, 'success');
-            }
-            this.debug(`Successfully wrote Hugo file: ${destPath}`);
-        } catch (error) {
-            this.debug(`Error writing Hugo file ${destPath}: ${error.message}`);
-            throw new Error(`Failed to write Hugo file '${safeFilename}': ${error.message}`);
+        // Notes that are no longer published (or no longer exist) leave their output behind as orphans
+        const published = new Set(files.map(file => file.path));
+        for (const notePath of Object.keys(this.exporter.getManifestNotes(profile.name))) {
+            if (!published.has(notePath)) {
+                this.exporter.retireManifestEntry(profile.name, notePath);
+            }
         }
+        await this.saveExportManifest();
+        await this.offerOrphanCleanup();
     }
 
-    // Converts a string into a URL-friendly slug
-    private slugify(text: string): string {
-        return text
-            .toString()
-            .normalize('NFKD') // split accented characters into base characters and diacritics
-            .replace(/[\u0300-\u036f]/g, '') // remove diacritics
-            .toLowerCase()
-            .trim()
-            .replace(/[^\w\s-]/g, '') // remove non-word characters (excluding spaces and hyphens)
-            .replace(/[\s_-]+/g, '-') // replace spaces and underscores with hyphens
-            .replace(/^-+|-+$/g, ''); // remove leading/trailing hyphens
+    // Retires entries of notes that no longer exist, then offers to delete orphaned files
+    private async cleanUpOrphans() {
+        for (const [profileName, notes] of Object.entries(this.exportManifest.notes)) {
+            for (const notePath of Object.keys(notes)) {
+                if (!(this.app.vault.getAbstractFileByPath(notePath) instanceof TFile)) {
+                    this.exporter.retireManifestEntry(profileName, notePath);
+                }
+            }
+        }
+        await this.saveExportManifest();
+        await this.offerOrphanCleanup();
     }
 
-    // Cleans a filename to remove potentially problematic characters for file systems/URLs
-    private sanitizeFilename(filename: string): string {
-        // Remove potentially problematic characters: <>:"/\|?* and control characters
-        // Replace spaces with underscores or hyphens (using hyphen consistent with slugify)
-        const sanitized = filename
-            .replace(/[\s]+/g, '-') // Replace whitespace with hyphen
-            .replace(/[<>:"/\\|?*\x00-\x1F]/g, '') // Remove forbidden characters
-            .replace(/-{2,}/g, '-') // Collapse multiple hyphens
-            .replace(/^-+|-+$/g, ''); // Trim leading/trailing hyphens
+    // Lists orphaned files that still exist and aren't claimed by another note, and asks before deleting them
+    private async offerOrphanCleanup() {
+        const claimed = new Set(Object.values(this.exportManifest.notes).flatMap(notes => Object.values(notes)).flatMap(entry => entry.outputs));
+        const orphans: string[] = [];
+        for (const orphan of this.exporter.unique(this.exportManifest.orphans)) {
+            if (!claimed.has(orphan) && await this.exporter.pathExists(orphan)) {
+                orphans.push(orphan);
+            }
+        }
+        // Forget orphans that are gone or claimed again
+        this.exportManifest.orphans = orphans;
+        await this.saveExportManifest();
 
-        if (sanitized !== filename) {
-            this.debug(`Sanitized filename: '${filename}' -> '${sanitized}'`);
+        if (orphans.length === 0) {
+            this.showNotice('No orphaned Hugo files to clean up.', 'success');
+            return;
         }
-        // Ensure filename isn't empty after sanitization
-        return sanitized || 'untitled';
+        new ConfirmDeleteModal(this.app, orphans, () => this.deleteOrphans(orphans)).open();
     }
 
+    // Deletes orphaned files (and bundle folders they leave empty) and removes them from the manifest
+    private async deleteOrphans(orphans: string[]) {
+        let deleted = 0;
+        // Deleted files are backed up, so 'Undo Last Hugo Export' brings them back
+        this.exporter.beginBatch();
+        try {
+            for (const orphan of orphans) {
+                try {
+                    await this.exporter.removeOutput(orphan);
+                    delete this.exportManifest.attachments[orphan];
+                    deleted++;
+                    this.debug(`Deleted orphaned file: ${orphan}`);
+                } catch (error) {
+                    this.handleError(error, `Failed to delete ${orphan}`);
+                }
+            }
+        } finally {
+            await this.exporter.endBatch();
+        }
+        this.exportManifest.orphans = this.exportManifest.orphans.filter(orphan => !orphans.includes(orphan));
+        await this.saveExportManifest();
+        this.showNotice(`Deleted ${deleted}/${orphans.length} orphaned files.`, deleted === orphans.length ? 'success' : 'error');
+    }
 
     // Logs messages to the console if debug mode is enabled
-    private debug(message: string) {
+    debug(message: string) {
         if (this.settings.debugMode) {
             console.log(`[Hugo Export DEBUG] ${message}`);
         }
@@ -576,8 +879,17 @@ export default class ObsidianHugoExportPlugin extends Plugin {
         new Notice(message, type === 'error' ? Math.max(duration, 5000) : duration);
     }
 
+    // Logs pipeline warnings and shows a notice summarizing them
+    private reportWarnings(file: VaultFile, warnings: string[]) {
+        if (warnings.length === 0) {
+            return;
+        }
+        warnings.forEach(warning => console.warn(`[Hugo Export WARNING] ${file.path}: ${warning}`));
+        this.showNotice(`'${file.name}' exported with ${warnings.length} warning(s):\n${warnings.join('\n')}`, 'error');
+    }
+
     // Handles errors by logging them and showing an error notice
-    private handleError(error: Error, context: string) {
+    handleError(error: Error, context: string) {
         console.error(`[Hugo Export ERROR] ${context}:`, error);
         // Try to provide a more informative message from the error object
         const errorMessage = error.message || 'An unknown error occurred.';
@@ -586,7 +898,7 @@ export default class ObsidianHugoExportPlugin extends Plugin {
 
     // Loads plugin settings from Obsidian's storage
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.settings = normalizeSettings(await this.loadData());
         this.debug("Settings loaded.");
     }
 
@@ -595,27 +907,360 @@ export default class ObsidianHugoExportPlugin extends Plugin {
         await this.saveData(this.settings);
         this.debug("Settings saved.");
     }
+
+    // Path of the export manifest inside the plugin folder
+    private getExportManifestPath(): string {
+        return `${this.manifest.dir}/${EXPORT_MANIFEST_FILE}`;
+    }
+
+    // Loads the export manifest, starting empty if it doesn't exist yet
+    async loadExportManifest() {
+        const empty: ExportManifest = { notes: {}, attachments: {}, orphans: [] };
+        const manifestPath = this.getExportManifestPath();
+        try {
+            if (await this.app.vault.adapter.exists(manifestPath)) {
+                this.exportManifest = Object.assign(empty, JSON.parse(await this.app.vault.adapter.read(manifestPath)));
+            } else {
+                this.exportManifest = empty;
+            }
+        } catch (error) {
+            this.handleError(error, 'Failed to read export manifest, starting a new one');
+            this.exportManifest = empty;
+        }
+        this.debug(`Export manifest loaded (${Object.keys(this.exportManifest.notes).length} profiles).`);
+    }
+
+    // Saves the export manifest next to the plugin settings
+    async saveExportManifest() {
+        await this.app.vault.adapter.write(this.getExportManifestPath(), JSON.stringify(this.exportManifest, null, 2));
+        this.debug("Export manifest saved.");
+    }
+
+    // Default backup folder of the exporter: 'backups' inside the plugin folder
+    get defaultBackupDirectory(): string {
+        const adapter = this.app.vault.adapter;
+        if (!(adapter instanceof FileSystemAdapter)) {
+            throw new Error('Export backups require a vault on the local file system.');
+        }
+        return adapter.getFullPath(`${this.manifest.dir}/backups`);
+    }
+
+    // Restores the files changed by the last export (or removes them if it created them), along with the manifest
+    private async undoLastExport() {
+        const result = await this.exporter.undoLastExport();
+        if (!result) {
+            this.showNotice('There is no Hugo export to undo.', 'error');
+            return;
+        }
+        await this.saveExportManifest();
+        const time = new Date(result.startedAt).toLocaleString();
+        this.showNotice(`Undid the Hugo export of ${time}: ${result.restored} file(s) restored, ${result.removed} removed.`, 'success');
+    }
 }
 
-// Defines the settings tab for the plugin
-class ObsidianHugoExportSettingTab extends PluginSettingTab {
+// Shows the progress of an export job with a button to cancel it; closing the dialog lets the export go on
+class ExportProgressModal extends Modal {
+    job: ExportJob;
+    statusEl: HTMLElement;
+    progressEl: HTMLProgressElement;
+
+    constructor(app: App, job: ExportJob) {
+        super(app);
+        this.job = job;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const total = this.job.files.length;
+        contentEl.createEl('h2', { text: `Exporting ${total} notes to Hugo` });
+        this.progressEl = contentEl.createEl('progress', { attr: { max: total, value: 0 } });
+        this.progressEl.style.width = '100%';
+        this.statusEl = contentEl.createEl('p', { text: 'Starting...' });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel export')
+                .setWarning()
+                .onClick(() => {
+                    this.job.cancel();
+                    button.setDisabled(true);
+                    this.statusEl.setText('Cancelling: waiting for the notes being exported to finish...');
+                }));
+    }
+
+    // Shows the note that just finished
+    update(result: ExportFileResult, done: number) {
+        this.progressEl.value = done;
+        if (!this.job.cancelled) {
+            this.statusEl.setText(`${done}/${this.job.files.length}: ${result.file.name} (${result.status})`);
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Shows what an export would produce (front matter, body, attachments, warnings, diff) before writing it
+class ExportPreviewModal extends Modal {
     plugin: ObsidianHugoExportPlugin;
+    file: TFile;
+    note: ProcessedNote;
+    existing: string | null;
 
-    constructor(app: App, plugin: ObsidianHugoExportPlugin) {
-        super(app, plugin);
+    constructor(app: App, plugin: ObsidianHugoExportPlugin, file: TFile, note: ProcessedNote, existing: string | null) {
+        super(app);
         this.plugin = plugin;
+        this.file = file;
+        this.note = note;
+        this.existing = existing;
     }
 
-    // Creates the UI elements for the settings tab
-    display(): void {
-        const { containerEl } = this;
-        containerEl.empty(); // Clear previous settings elements
+    onOpen() {
+        const { contentEl, note } = this;
+        this.modalEl.addClass('hugo-export-preview');
+        contentEl.createEl('h2', { text: `Preview: ${this.file.name}` });
+        contentEl.createEl('p', { text: `Destination: ${note.target.contentPath}` });
 
-        containerEl.createEl('h2', { text: 'Hugo Export Settings' });
+        if (note.warnings.length > 0) {
+            contentEl.createEl('h3', { text: `Warnings (${note.warnings.length})` });
+            const warningList = contentEl.createEl('ul', { cls: 'hugo-export-warnings' });
+            note.warnings.forEach(warning => warningList.createEl('li', { text: warning }));
+        }
 
-        // Setting for Hugo Posts Directory
-        this.addDirectorySetting(
-            containerEl,
+        contentEl.createEl('h3', { text: 'Front matter' });
+        contentEl.createEl('pre', { text: JSON.stringify(note.frontMatter, null, 2) });
+
+        contentEl.createEl('h3', { text: `Attachments (${note.attachments.length})` });
+        if (note.attachments.length > 0) {
+            const attachmentList = contentEl.createEl('ul');
+            note.attachments.forEach(attachment => attachmentList.createEl('li', { text: `${attachment.source} → ${attachment.destination}` }));
+        } else {
+            contentEl.createEl('p', { text: 'None.' });
+        }
+
+        contentEl.createEl('h3', { text: 'Body' });
+        contentEl.createEl('pre', { text: note.body });
+
+        contentEl.createEl('h3', { text: 'Changes' });
+        if (this.existing === null) {
+            contentEl.createEl('p', { text: 'Not exported yet: a new file will be created.' });
+        } else if (this.existing === note.content) {
+            contentEl.createEl('p', { text: 'No changes: the exported file is up to date.' });
+        } else {
+            const diffEl = contentEl.createEl('pre', { cls: 'hugo-export-diff' });
+            for (const line of this.plugin.diffLines(this.existing, note.content)) {
+                const cls = line.type === '+' ? 'hugo-export-diff-added' : line.type === '-' ? 'hugo-export-diff-removed' : 'hugo-export-diff-unchanged';
+                diffEl.createDiv({ cls, text: `${line.type} ${line.text}` });
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(async () => {
+                    this.close();
+                    await this.plugin.exportFile(this.file).catch(error => this.plugin.handleError(error, `Export failed for ${this.file.name}`));
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Shows the output of post-export hooks, following new output while open
+class HookLogModal extends Modal {
+    plugin: ObsidianHugoExportPlugin;
+    listener: (chunk: string) => void;
+
+    constructor(app: App, plugin: ObsidianHugoExportPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('hugo-export-preview');
+        contentEl.createEl('h2', { text: 'Hugo export hook log' });
+        const pre = contentEl.createEl('pre', { text: this.plugin.hookLog || 'No hooks have run yet.\n' });
+        this.listener = (chunk: string) => {
+            pre.appendText(chunk);
+            pre.scrollTop = pre.scrollHeight;
+        };
+        this.plugin.hookLogListeners.add(this.listener);
+        pre.scrollTop = pre.scrollHeight;
+    }
+
+    onClose() {
+        this.plugin.hookLogListeners.delete(this.listener);
+        this.contentEl.empty();
+    }
+}
+
+// Lets the user pick the profile to export with
+class ProfileSuggestModal extends FuzzySuggestModal<HugoProfile> {
+    profiles: HugoProfile[];
+    onChoose: (profile: HugoProfile) => void;
+
+    constructor(app: App, profiles: HugoProfile[], onChoose: (profile: HugoProfile) => void) {
+        super(app);
+        this.profiles = profiles;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Export to which Hugo profile?');
+    }
+
+    getItems(): HugoProfile[] {
+        return this.profiles;
+    }
+
+    getItemText(profile: HugoProfile): string {
+        return profile.name;
+    }
+
+    onChooseItem(profile: HugoProfile) {
+        this.onChoose(profile);
+    }
+}
+
+// Asks the user to confirm deleting a list of files
+class ConfirmDeleteModal extends Modal {
+    files: string[];
+    onConfirm: () => Promise<void>;
+
+    constructor(app: App, files: string[], onConfirm: () => Promise<void>) {
+        super(app);
+        this.files = files;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Delete orphaned Hugo files?' });
+        contentEl.createEl('p', { text: `These ${this.files.length} files were written by a previous export but no published note produces them anymore:` });
+        const list = contentEl.createEl('ul');
+        this.files.forEach(file => list.createEl('li', { text: file }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Keep')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Delete')
+                .setWarning()
+                .onClick(async () => {
+                    this.close();
+                    await this.onConfirm();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Defines the settings tab for the plugin
+class ObsidianHugoExportSettingTab extends PluginSettingTab {
+    plugin: ObsidianHugoExportPlugin;
+    // Index of the profile shown in the profile settings
+    editedProfile = 0;
+
+    constructor(app: App, plugin: ObsidianHugoExportPlugin) {
+        super(app, plugin);
+        this.plugin = plugin;
+    }
+
+    // Creates the UI elements for the settings tab
+    display(): void {
+        const { containerEl } = this;
+        containerEl.empty(); // Clear previous settings elements
+
+        containerEl.createEl('h2', { text: 'Hugo Export Settings' });
+
+        // Settings for site profiles
+        containerEl.createEl('h3', { text: 'Site Profiles' });
+        const profiles = this.plugin.settings.profiles;
+        this.editedProfile = Math.min(this.editedProfile, profiles.length - 1);
+        const profile = profiles[this.editedProfile];
+
+        new Setting(containerEl)
+            .setName('Default Profile')
+            .setDesc(`Used for notes without a '${PROFILE_KEY}: <name>' front matter key.`)
+            .addDropdown(dropdown => {
+                profiles.forEach(candidate => dropdown.addOption(candidate.name, candidate.name));
+                dropdown
+                    .setValue(this.plugin.exporter.getDefaultProfile().name)
+                    .onChange(async (value) => {
+                        this.plugin.settings.defaultProfile = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Edit Profile')
+            .setDesc('The settings below belong to this profile.')
+            .addDropdown(dropdown => {
+                profiles.forEach((candidate, index) => dropdown.addOption(String(index), candidate.name));
+                dropdown
+                    .setValue(String(this.editedProfile))
+                    .onChange((value) => {
+                        this.editedProfile = parseInt(value, 10);
+                        this.display();
+                    });
+            })
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    profiles.push({ ...DEFAULT_PROFILE, name: this.getUnusedProfileName() });
+                    this.editedProfile = profiles.length - 1;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Delete')
+                .setWarning()
+                .setDisabled(profiles.length === 1)
+                .onClick(async () => {
+                    profiles.splice(this.editedProfile, 1);
+                    if (!profiles.some(candidate => candidate.name === this.plugin.settings.defaultProfile)) {
+                        this.plugin.settings.defaultProfile = profiles[0].name;
+                    }
+                    this.editedProfile = 0;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Profile Name')
+            .setDesc('Shown in the export menus and matched by the front matter key.')
+            .addText(text => {
+                text.setValue(profile.name);
+                // Renaming on blur keeps the manifest and default profile in step without a rename per keystroke
+                text.inputEl.addEventListener('blur', async () => {
+                    const name = text.getValue().trim();
+                    if (!name || name === profile.name || profiles.some(candidate => candidate.name === name)) {
+                        text.setValue(profile.name);
+                        return;
+                    }
+                    if (this.plugin.settings.defaultProfile === profile.name) {
+                        this.plugin.settings.defaultProfile = name;
+                    }
+                    this.plugin.exporter.renameManifestProfile(profile.name, name);
+                    await this.plugin.saveExportManifest();
+                    profile.name = name;
+                    await this.plugin.saveSettings();
+                    this.display();
+                });
+            });
+
+        // Setting for Hugo Posts Directory
+        this.addDirectorySetting(
+            containerEl,
+            profile,
             'Hugo Posts Directory',
             'path to your Hugo `content/posts`',
             'postsDirectory'
@@ -624,11 +1269,703 @@ class ObsidianHugoExportSettingTab extends PluginSettingTab {
         // Setting for Hugo Static Images Directory
         this.addDirectorySetting(
             containerEl,
+            profile,
             'Hugo Static Images Directory',
             'path to your Hugo `static/images`',
             'staticImagesDirectory'
         );
 
+        new Setting(containerEl)
+            .setName('Link Prefix')
+            .setDesc('URL prefix of notes in the posts directory, used for links between notes and for aliases. Routed sections use /<section>/.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_PROFILE.linkPrefix)
+                .setValue(profile.linkPrefix)
+                .onChange(async (value) => {
+                    const prefix = value.trim() || DEFAULT_PROFILE.linkPrefix;
+                    profile.linkPrefix = prefix.endsWith('/') ? prefix : `${prefix}/`;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Link Style')
+            .setDesc('How links to other exported notes are written. Relrefs are resolved by Hugo, so they follow permalink and section changes and Hugo reports dead ones; links to notes outside the publish set become plain text.')
+            .addDropdown(dropdown => dropdown
+                .addOption('url', 'URL (/posts/slug/)')
+                .addOption('relref', 'relref shortcode')
+                .setValue(profile.linkStyle)
+                .onChange(async (value) => {
+                    profile.linkStyle = value as LinkStyle;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Section Routes')
+            .setDesc("One 'vault folder: section' pair per line, mapping folders to sections of the content directory (the folder holding the posts directory). End the folder with '/**' to mirror its subfolders inside the section. Other notes go to the posts directory; a note's 'section' front matter overrides the routes.")
+            .addTextArea(text => text
+                .setPlaceholder('Notes/Recipes/**: recipes\nProjects: projects')
+                .setValue(Object.entries(profile.sectionRoutes).map(([folder, section]) => `${folder}: ${section}`).join('\n'))
+                .onChange(async (value) => {
+                    profile.sectionRoutes = this.parseKeyValueLines(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Languages')
+            .setDesc(`How notes with a '${LANGUAGE_KEY}' front matter are exported. Notes sharing a '${TRANSLATION_KEY}' are translations of each other and link to each other's language versions.`)
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Ignore languages')
+                .addOption('filename', 'Translation files (post.fr.md)')
+                .addOption('directory', 'Content directory per language (content/fr/)')
+                .setValue(profile.languageMode)
+                .onChange(async (value) => {
+                    profile.languageMode = value as LanguageMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Default Language')
+            .setDesc(`Language of notes without '${LANGUAGE_KEY}' (Hugo's defaultContentLanguage).`)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_PROFILE.defaultLanguage)
+                .setValue(profile.defaultLanguage)
+                .onChange(async (value) => {
+                    profile.defaultLanguage = value.trim() || DEFAULT_PROFILE.defaultLanguage;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Hugo Site Root')
+            .setDesc(`Where the Hugo config is read from, and the working directory of post-export hooks. Leave empty to use the folder above 'content': ${this.plugin.exporter.getSiteRoot(profile)}`)
+            .addText(text => text
+                .setPlaceholder('~/hugo-blog')
+                .setValue(profile.siteRoot)
+                .onChange(async (value) => {
+                    profile.siteRoot = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Read Hugo Config')
+            .setDesc("Read hugo.toml / hugo.yaml / config.* (and config/_default) in the site root, and take the content and static directories, baseURL path, language content directories, default language and permalinks from it.")
+            .addToggle(toggle => toggle
+                .setValue(profile.useSiteConfig)
+                .onChange(async (value) => {
+                    profile.useSiteConfig = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+        if (profile.useSiteConfig) {
+            this.addSiteConfigInfo(containerEl, profile);
+        }
+
+        new Setting(containerEl)
+            .setName('Post-Export Hooks')
+            .setDesc("Shell commands run in the site root, one per line, after a batch export wrote files; a failing command stops the ones after it. They get the written files in $HUGO_EXPORT_FILES (one per line) and on stdin. Output goes to 'Show Hugo Export Hook Log'.")
+            .addTextArea(text => text
+                .setPlaceholder('hugo --minify\ngit add -A && git commit -m "Update posts"')
+                .setValue(profile.postExportHooks.join('\n'))
+                .onChange(async (value) => {
+                    profile.postExportHooks = value.split('\n').map(line => line.trim()).filter(line => line);
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for front matter
+        new Setting(containerEl)
+            .setName('Front Matter Format')
+            .setDesc('Front matter syntax used by your Hugo site.')
+            .addDropdown(dropdown => dropdown
+                .addOption('yaml', 'YAML (---)')
+                .addOption('toml', 'TOML (+++)')
+                .addOption('json', 'JSON ({ })')
+                .setValue(profile.frontMatterFormat)
+                .onChange(async (value) => {
+                    profile.frontMatterFormat = value as FrontMatterFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Rename Front Matter Keys')
+            .setDesc("One 'from: to' pair per line, e.g. 'created: date'.")
+            .addTextArea(text => text
+                .setPlaceholder('created: date\nupdated: lastmod')
+                .setValue(Object.entries(profile.frontMatterKeyMap).map(([from, to]) => `${from}: ${to}`).join('\n'))
+                .onChange(async (value) => {
+                    profile.frontMatterKeyMap = this.parseKeyValueLines(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Allowed Front Matter Keys')
+            .setDesc('Comma-separated. If set, only these keys are exported (after renaming). Leave empty to export all keys.')
+            .addText(text => text
+                .setPlaceholder('title, date, tags, draft')
+                .setValue(profile.frontMatterAllowKeys.join(', '))
+                .onChange(async (value) => {
+                    profile.frontMatterAllowKeys = this.parseList(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Dropped Front Matter Keys')
+            .setDesc('Comma-separated keys that are never exported (after renaming).')
+            .addText(text => text
+                .setPlaceholder('cssclasses, id')
+                .setValue(profile.frontMatterDropKeys.join(', '))
+                .onChange(async (value) => {
+                    profile.frontMatterDropKeys = this.parseList(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Date Source')
+            .setDesc("Date of notes without a 'date' in their front matter (or a key renamed to it).")
+            .addDropdown(dropdown => dropdown
+                .addOption('first-export', 'First export')
+                .addOption('created', 'File creation time')
+                .addOption('now', 'Time of each export')
+                .setValue(profile.dateSource)
+                .onChange(async (value) => {
+                    profile.dateSource = value as DateSource;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Last Modified Source')
+            .setDesc("'lastmod' of notes without one in their front matter.")
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Not written')
+                .addOption('modified', 'File modification time')
+                .addOption('content', 'Last export that changed the note')
+                .setValue(profile.lastmodSource)
+                .onChange(async (value) => {
+                    profile.lastmodSource = value as LastmodSource;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Time Zone')
+            .setDesc("Time zone of exported dates: an IANA name like 'Europe/Paris', 'local' for this computer's, or empty for UTC.")
+            .addText(text => text
+                .setPlaceholder('UTC')
+                .setValue(profile.timezone)
+                .onChange(async (value) => {
+                    profile.timezone = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Pin Dates')
+            .setDesc('Write the generated date into the front matter of exported notes, so it never changes again.')
+            .addToggle(toggle => toggle
+                .setValue(profile.pinDates)
+                .onChange(async (value) => {
+                    profile.pinDates = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Use Archetypes')
+            .setDesc("Start the front matter from the site's archetype for the note's section (archetypes/<section>.md, else archetypes/default.md). Values from the note win; lines with Hugo template code such as {{ .Date }} are skipped.")
+            .addToggle(toggle => toggle
+                .setValue(profile.useArchetypes)
+                .onChange(async (value) => {
+                    profile.useArchetypes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Export Template')
+            .setDesc(`Vault path of a note the exported body is placed into, e.g. for a banner or a summary separator. Placeholders: ${TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}. A note can pick another template with '${TEMPLATE_KEY}: <path>' or none with '${TEMPLATE_KEY}: none'.`)
+            .addText(text => text
+                .setPlaceholder('Templates/Hugo Post.md')
+                .setValue(profile.exportTemplate)
+                .onChange(async (value) => {
+                    profile.exportTemplate = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Collect Inline Tags')
+            .setDesc('Add #tags found in the note body to the exported tags.')
+            .addToggle(toggle => toggle
+                .setValue(profile.collectInlineTags)
+                .onChange(async (value) => {
+                    profile.collectInlineTags = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Nested Tags')
+            .setDesc('How #parent/child tags are exported.')
+            .addDropdown(dropdown => dropdown
+                .addOption('full', 'Keep full tag (parent/child)')
+                .addOption('leaf', 'Last segment only (child)')
+                .addOption('categories', 'Parent as category, child as tag')
+                .setValue(profile.nestedTagMode)
+                .onChange(async (value) => {
+                    profile.nestedTagMode = value as NestedTagMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Draft from Publish Flag')
+            .setDesc("Convert 'publish: false' into 'draft: true' (and 'publish: true' into 'draft: false').")
+            .addToggle(toggle => toggle
+                .setValue(profile.draftFromPublish)
+                .onChange(async (value) => {
+                    profile.draftFromPublish = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Aliases as Redirect URLs')
+            .setDesc("Convert Obsidian 'aliases' into Hugo alias URLs under the posts section.")
+            .addToggle(toggle => toggle
+                .setValue(profile.aliasesToUrls)
+                .onChange(async (value) => {
+                    profile.aliasesToUrls = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for the profile's publish set
+
+        new Setting(containerEl)
+            .setName('Publish Folders')
+            .setDesc("Comma-separated vault folders whose notes are published by 'Publish Site to Hugo'.")
+            .addText(text => text
+                .setPlaceholder('Blog, Notes/Public')
+                .setValue(profile.publishFolders.join(', '))
+                .onChange(async (value) => {
+                    profile.publishFolders = this.parseList(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Publish Tags')
+            .setDesc('Comma-separated tags; notes with any of them (or a nested tag below them) are published.')
+            .addText(text => text
+                .setPlaceholder('#blog, #public')
+                .setValue(profile.publishTags.join(', '))
+                .onChange(async (value) => {
+                    profile.publishTags = this.parseList(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Publish by Front Matter Flag')
+            .setDesc('Publish notes whose flag key below is true. A false flag always excludes a note.')
+            .addToggle(toggle => toggle
+                .setValue(profile.publishByFlag)
+                .onChange(async (value) => {
+                    profile.publishByFlag = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Publish Flag Key')
+            .setDesc('Front matter key of the publish flag.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_PROFILE.publishFlagKey)
+                .setValue(profile.publishFlagKey)
+                .onChange(async (value) => {
+                    profile.publishFlagKey = value.trim() || DEFAULT_PROFILE.publishFlagKey;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Saved Search')
+            .setDesc("Publish notes matching all terms: 'path:', 'file:', 'tag:' or plain text (searched in the note content). Prefix a term with '-' to negate it.")
+            .addText(text => text
+                .setPlaceholder('path:Blog -"work in progress"')
+                .setValue(profile.publishSearch)
+                .onChange(async (value) => {
+                    profile.publishSearch = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Follow Links')
+            .setDesc('Also export notes linked from exported notes whose publish flag is true (applies to Publish Site and folder exports).')
+            .addToggle(toggle => toggle
+                .setValue(profile.publishFollowLinks)
+                .onChange(async (value) => {
+                    profile.publishFollowLinks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings shared by all profiles
+        containerEl.createEl('h3', { text: 'Conversion' });
+
+        // Setting for Output Mode
+        new Setting(containerEl)
+            .setName('Output Mode')
+            .setDesc(`Flat writes '<posts>/<name>.md' and copies images to the static images directory. Page bundle writes '<posts>/<slug>/index.md' with images and attachments next to it. Override per note with '${OUTPUT_MODE_KEY}: flat' or '${OUTPUT_MODE_KEY}: bundle' in front matter.`)
+            .addDropdown(dropdown => dropdown
+                .addOption('flat', 'Flat file')
+                .addOption('bundle', 'Page bundle')
+                .setValue(this.plugin.settings.outputMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.outputMode = value as OutputMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for attachment naming
+        new Setting(containerEl)
+            .setName('Attachment Naming')
+            .setDesc('How copied images and attachments are named. Different files never overwrite each other: clashing names get a numeric suffix.')
+            .addDropdown(dropdown => dropdown
+                .addOption('basename', 'File name only')
+                .addOption('subpath', 'Keep vault folder structure')
+                .addOption('note-prefix', 'Prefix with note slug')
+                .addOption('hash', 'File name plus content hash')
+                .setValue(this.plugin.settings.attachmentNaming)
+                .onChange(async (value) => {
+                    this.plugin.settings.attachmentNaming = value as AttachmentNaming;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for non-image attachments: static folder and (for media) shortcode per kind
+        const attachmentKinds: { kind: 'video' | 'audio' | 'pdf' | 'file', name: string, desc: string }[] = [
+            { kind: 'video', name: 'Videos', desc: 'Embedded videos (mp4, webm, mov, ...) become <video> tags, or the shortcode if one is set.' },
+            { kind: 'audio', name: 'Audio', desc: 'Embedded audio (mp3, m4a, wav, ...) becomes <audio> tags, or the shortcode if one is set.' },
+            { kind: 'pdf', name: 'PDFs', desc: 'Embedded PDFs become an <object> embed with a download link fallback, or the shortcode if one is set.' },
+            { kind: 'file', name: 'Other Files', desc: 'Any other attachment becomes a download link.' },
+        ];
+        for (const { kind, name, desc } of attachmentKinds) {
+            const setting = new Setting(containerEl)
+                .setName(name)
+                .setDesc(`${desc} Folder next to the static images directory the files are copied to (empty: the images directory; bundles keep everything in the bundle).`)
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.attachmentFolders[kind] || 'folder')
+                    .setValue(this.plugin.settings.attachmentFolders[kind])
+                    .onChange(async (value) => {
+                        this.plugin.settings.attachmentFolders[kind] = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+            if (kind !== 'file') {
+                setting.addText(text => text
+                    .setPlaceholder('shortcode (optional)')
+                    .setValue(this.plugin.settings.mediaShortcodes[kind])
+                    .onChange(async (value) => {
+                        this.plugin.settings.mediaShortcodes[kind] = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+            }
+        }
+
+        new Setting(containerEl)
+            .setName('Embed PDFs')
+            .setDesc('Show embedded PDFs (![[paper.pdf]]) in the page. When off, they become download links.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.embedPdfs)
+                .onChange(async (value) => {
+                    this.plugin.settings.embedPdfs = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for unresolved wikilinks
+        new Setting(containerEl)
+            .setName('Unresolved Links')
+            .setDesc('What to do with wikilinks whose target note does not exist, is not published (publish: false / draft: true) or is outside the publish set (and not exported along with the linking note).')
+            .addDropdown(dropdown => dropdown
+                .addOption('text', 'Plain text')
+                .addOption('keep', 'Keep link (guess URL from link text)')
+                .addOption('warn', 'Plain text and warn')
+                .setValue(this.plugin.settings.unresolvedLinkPolicy)
+                .onChange(async (value) => {
+                    this.plugin.settings.unresolvedLinkPolicy = value as UnresolvedLinkPolicy;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for callouts
+        new Setting(containerEl)
+            .setName('Callout Style')
+            .setDesc('How Obsidian callouts (> [!note] ...) are exported.')
+            .addDropdown(dropdown => dropdown
+                .addOption('blockquote', 'Blockquote with class')
+                .addOption('shortcode', 'Hugo shortcode')
+                .addOption('none', 'Leave as-is')
+                .setValue(this.plugin.settings.calloutStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.calloutStyle = value as CalloutStyle;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Callout Shortcode')
+            .setDesc('Default shortcode name used for callouts in shortcode style.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.calloutShortcode)
+                .setValue(this.plugin.settings.calloutShortcode)
+                .onChange(async (value) => {
+                    this.plugin.settings.calloutShortcode = value.trim() || DEFAULT_SETTINGS.calloutShortcode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Callout Shortcodes per Type')
+            .setDesc("One 'type: shortcode' pair per line, e.g. 'warning: alert'. Types not listed use the default shortcode.")
+            .addTextArea(text => text
+                .setPlaceholder('warning: alert\ntip: hint')
+                .setValue(Object.entries(this.plugin.settings.calloutTypeShortcodes).map(([type, name]) => `${type}: ${name}`).join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.calloutTypeShortcodes = this.parseKeyValueLines(value, true);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Foldable Callouts as Details')
+            .setDesc('Render foldable callouts ([!type]- / [!type]+) as <details> blocks.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.foldableCalloutsAsDetails)
+                .onChange(async (value) => {
+                    this.plugin.settings.foldableCalloutsAsDetails = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for note embeds
+        new Setting(containerEl)
+            .setName('Embed Depth Limit')
+            .setDesc('How many levels of ![[Note]] embeds are inlined (embeds inside embedded notes). Deeper embeds become links.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.maxEmbedDepth))
+                .setValue(String(this.plugin.settings.maxEmbedDepth))
+                .onChange(async (value) => {
+                    const depth = parseInt(value, 10);
+                    this.plugin.settings.maxEmbedDepth = Number.isNaN(depth) || depth < 0 ? DEFAULT_SETTINGS.maxEmbedDepth : depth;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for Obsidian-specific markdown
+        new Setting(containerEl)
+            .setName('Strip Comments')
+            .setDesc('Remove %%comments%% so private notes never reach the site (comments inside code are kept).')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.stripComments)
+                .onChange(async (value) => {
+                    this.plugin.settings.stripComments = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Highlights')
+            .setDesc('Convert ==highlights== into <mark> elements (needs markup.goldmark.renderer.unsafe = true).')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.convertHighlights)
+                .onChange(async (value) => {
+                    this.plugin.settings.convertHighlights = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Math')
+            .setDesc("How $inline$ and $$block$$ LaTeX is exported. Passthrough keeps it unchanged for Goldmark's passthrough extension; both protect it from the other conversions.")
+            .addDropdown(dropdown => dropdown
+                .addOption('passthrough', 'Passthrough')
+                .addOption('shortcode', 'Math shortcode')
+                .addOption('none', 'Treat as text')
+                .setValue(this.plugin.settings.mathStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.mathStyle = value as MathStyle;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Math Shortcode')
+            .setDesc('Shortcode name used when math is exported as a shortcode.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.mathShortcode)
+                .setValue(this.plugin.settings.mathShortcode)
+                .onChange(async (value) => {
+                    this.plugin.settings.mathShortcode = value.trim() || DEFAULT_SETTINGS.mathShortcode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Mermaid as Shortcode')
+            .setDesc('Export ```mermaid fences as {{< mermaid >}} shortcodes. Leave off if your theme renders mermaid code blocks with a render hook.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.mermaidAsShortcode)
+                .onChange(async (value) => {
+                    this.plugin.settings.mermaidAsShortcode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Normalize Task States')
+            .setDesc('Export custom task states as checkboxes Hugo understands: [-] becomes a checked, struck-through item, [/], [>] and others become unchecked.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.normalizeTaskStates)
+                .onChange(async (value) => {
+                    this.plugin.settings.normalizeTaskStates = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Inline Footnotes')
+            .setDesc('Convert ^[inline footnotes] into regular footnotes, which Hugo supports.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.convertInlineFootnotes)
+                .onChange(async (value) => {
+                    this.plugin.settings.convertInlineFootnotes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings shared by the hooks of all profiles
+        containerEl.createEl('h3', { text: 'Hooks' });
+
+        new Setting(containerEl)
+            .setName('Hook Timeout (seconds)')
+            .setDesc('Post-export hooks running longer than this are stopped and reported as failed.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.hookTimeout))
+                .setValue(String(this.plugin.settings.hookTimeout))
+                .onChange(async (value) => {
+                    const timeout = parseFloat(value);
+                    this.plugin.settings.hookTimeout = Number.isNaN(timeout) || timeout <= 0 ? DEFAULT_SETTINGS.hookTimeout : timeout;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for keeping private content off the site
+        containerEl.createEl('h3', { text: 'Privacy' });
+
+        new Setting(containerEl)
+            .setName('Private Section Tags')
+            .setDesc("Comma-separated. Headings carrying one of these tags (e.g. '## Notes #private') are left out with everything below them, up to the next heading of the same or a higher level.")
+            .addText(text => text
+                .setPlaceholder('private')
+                .setValue(this.plugin.settings.privateSectionTags.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.privateSectionTags = this.parseList(value).map(tag => tag.replace(/^#/, ''));
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Private Block Markers')
+            .setDesc('Lines between a start and an end marker (each on a line of its own) are left out. Clear either marker to turn this off.')
+            .addText(text => text
+                .setPlaceholder('Start marker')
+                .setValue(this.plugin.settings.privateBlockStart)
+                .onChange(async (value) => {
+                    this.plugin.settings.privateBlockStart = value.trim();
+                    await this.plugin.saveSettings();
+                }))
+            .addText(text => text
+                .setPlaceholder('End marker')
+                .setValue(this.plugin.settings.privateBlockEnd)
+                .onChange(async (value) => {
+                    this.plugin.settings.privateBlockEnd = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Confidential Tags')
+            .setDesc('Comma-separated. Notes with one of these tags are never exported: they are left out of the publish set, exporting them fails, embeds of and links to them are dropped (their text too).')
+            .addText(text => text
+                .setPlaceholder('confidential')
+                .setValue(this.plugin.settings.confidentialTags.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.confidentialTags = this.parseList(value).map(tag => tag.replace(/^#/, ''));
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for undoing exports
+        containerEl.createEl('h3', { text: 'Backups' });
+
+        new Setting(containerEl)
+            .setName('Backup Folder')
+            .setDesc("Files an export overwrites or deletes are copied here first, so 'Undo Last Hugo Export' can restore them. Leave empty for the 'backups' folder inside the plugin folder.")
+            .addText(text => text
+                .setPlaceholder('~/hugo-export-backups')
+                .setValue(this.plugin.settings.backupDirectory)
+                .onChange(async (value) => {
+                    this.plugin.settings.backupDirectory = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Exports to Keep')
+            .setDesc('How many past exports keep their backups; they can be undone one after another, newest first. 0 turns backups and undo off.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.keepBackups))
+                .setValue(String(this.plugin.settings.keepBackups))
+                .onChange(async (value) => {
+                    const count = parseInt(value, 10);
+                    this.plugin.settings.keepBackups = Number.isNaN(count) || count < 0 ? DEFAULT_SETTINGS.keepBackups : count;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for checking notes before they are exported
+        containerEl.createEl('h3', { text: 'Validation' });
+
+        new Setting(containerEl)
+            .setName('Report Note')
+            .setDesc("Vault path of the note the 'Validate Hugo Export' command writes its report to. The note is replaced on every run and never published.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.validationReportPath)
+                .setValue(this.plugin.settings.validationReportPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.validationReportPath = value.trim() || DEFAULT_SETTINGS.validationReportPath;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Strict Mode')
+            .setDesc('Validate notes before exporting them and abort the export if there are errors (missing attachments or notes, broken embeds, duplicate URLs, output collisions). The report note lists them.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.strictMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.strictMode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for watch mode
+        containerEl.createEl('h3', { text: 'Auto Export' });
+
+        new Setting(containerEl)
+            .setName('Export on Save')
+            .setDesc("Re-export notes in their profile's publish set when they change, and remove the Hugo output of renamed or deleted notes. Progress is shown in the status bar.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoExport)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoExport = value;
+                    if (!value) {
+                        this.plugin.cancelAutoExport();
+                    }
+                    this.plugin.updateStatusBar();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Delay (seconds)')
+            .setDesc('Wait this long after the last change before exporting, so typing does not trigger an export on every save.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.autoExportDelay))
+                .setValue(String(this.plugin.settings.autoExportDelay))
+                .onChange(async (value) => {
+                    const delay = parseFloat(value);
+                    this.plugin.settings.autoExportDelay = Number.isNaN(delay) || delay < 0 ? DEFAULT_SETTINGS.autoExportDelay : delay;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Settings for how exports run
+        containerEl.createEl('h3', { text: 'Performance' });
+
+        new Setting(containerEl)
+            .setName('Parallel Exports')
+            .setDesc('Number of notes exported at the same time. Lower it if exports to a slow or network drive fail; 1 exports one note after another.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.exportConcurrency))
+                .setValue(String(this.plugin.settings.exportConcurrency))
+                .onChange(async (value) => {
+                    const concurrency = parseInt(value, 10);
+                    this.plugin.settings.exportConcurrency = Number.isNaN(concurrency) || concurrency < 1 ? DEFAULT_SETTINGS.exportConcurrency : concurrency;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Troubleshooting' });
+
         // Setting for Debug Mode
         new Setting(containerEl)
             .setName('Debug Mode')
@@ -642,16 +1979,49 @@ class ObsidianHugoExportSettingTab extends PluginSettingTab {
                 }));
     }
 
+    // A profile name that is not taken yet
+    private getUnusedProfileName(): string {
+        const names = new Set(this.plugin.settings.profiles.map(profile => profile.name));
+        let counter = names.size + 1;
+        while (names.has(`Profile ${counter}`)) {
+            counter++;
+        }
+        return `Profile ${counter}`;
+    }
+
+    // Parses 'key: value' lines (as typed into a text area) into a key map
+    private parseKeyValueLines(value: string, lowerCaseKeys = false): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const line of value.split('\n')) {
+            const separator = line.indexOf(':');
+            if (separator === -1) {
+                continue;
+            }
+            const rawKey = line.slice(0, separator).trim();
+            const key = lowerCaseKeys ? rawKey.toLowerCase() : rawKey;
+            const mapped = line.slice(separator + 1).trim();
+            if (key && mapped) {
+                result[key] = mapped;
+            }
+        }
+        return result;
+    }
+
+    // Parses a comma-separated list, dropping empty entries
+    private parseList(value: string): string[] {
+        return value.split(',').map(item => item.trim()).filter(item => item);
+    }
+
     // Helper function to create a directory setting input field with resolved path display
-    private addDirectorySetting(containerEl: HTMLElement, name: string, desc: string, key: keyof ObsidianHugoExportSettings) {
+    private addDirectorySetting(containerEl: HTMLElement, profile: HugoProfile, name: string, desc: string, key: DirectorySettingKey) {
         const setting = new Setting(containerEl)
             .setName(name)
             .setDesc(desc)
             .addText(text => {
-                text.setPlaceholder(DEFAULT_SETTINGS[key])
-                    .setValue(this.plugin.settings[key])
+                text.setPlaceholder(DEFAULT_PROFILE[key])
+                    .setValue(profile[key])
                     .onChange(async (value) => {
-                        this.plugin.settings[key] = value.trim();
+                        profile[key] = value.trim();
                         await this.plugin.saveSettings();
                         // Re-render the entire settings tab to update the resolved path display
                         this.display();
@@ -666,7 +2036,7 @@ class ObsidianHugoExportSettingTab extends PluginSettingTab {
         });
 
         try {
-            const resolved = this.plugin.resolvePath(this.plugin.settings[key]);
+            const resolved = this.plugin.exporter.resolvePath(profile[key]);
             resolvedPathContainer.setText(`Resolved path: ${resolved}`);
             // Optionally check if path exists or is accessible (async check might be slow here)
             // fs.access(resolved, fs.constants.W_OK).catch(err => {
@@ -678,4 +2048,39 @@ class ObsidianHugoExportSettingTab extends PluginSettingTab {
              resolvedPathContainer.style.color = 'var(--text-error)';
         }
     }
+
+    // Shows what was read from the profile's Hugo config and the directories the exporter uses with it
+    private addSiteConfigInfo(containerEl: HTMLElement, profile: HugoProfile) {
+        const setting = new Setting(containerEl)
+            .setName('Detected Hugo Config')
+            .setDesc('Reading the site config...');
+        const infoEl = setting.descEl.createDiv({ attr: { style: 'white-space: pre-wrap; margin-top: 5px;' } });
+        // The config is read from disk, so the details fill in once it is loaded
+        this.plugin.exporter.loadSiteConfig(profile).then(config => {
+            if (!config) {
+                setting.setDesc(`No hugo.toml, hugo.yaml, hugo.json or config.* found in ${this.plugin.exporter.getSiteRoot(profile)}; the profile's directories and '/images/' are used.`);
+                return;
+            }
+            setting.setDesc(`Read from ${config.files.join(', ')}`);
+            const languageDirs = Object.entries(config.languageContentDirs).map(([language, dir]) => `${language}: ${dir}`);
+            const permalinks = Object.entries(config.permalinks).map(([section, pattern]) => `${section}: ${pattern}`);
+            infoEl.setText([
+                `Base URL: ${config.baseURL || '(not set)'}`,
+                `Content directory: ${config.contentDir}`,
+                `Static directories: ${config.staticDirs.join(', ')}`,
+                `Default language: ${config.defaultLanguage || '(not set)'}`,
+                ...(languageDirs.length > 0 ? [`Language content directories: ${languageDirs.join(', ')}`] : []),
+                ...(permalinks.length > 0 ? [`Permalinks: ${permalinks.join(', ')}`] : []),
+            ].join('\n'));
+            setting.descEl.appendChild(infoEl);
+            // The exporter moves the profile's directories into the config's content and static directories
+            const exporter = this.plugin.exporter;
+            const movedNote = (configured: string, used: string) => exporter.resolvePath(configured) === used ? '' : ` (moved from ${exporter.resolvePath(configured)})`;
+            infoEl.createDiv({ text: `Posts are exported to ${exporter.getPostsDirectory(profile)}${movedNote(profile.postsDirectory, exporter.getPostsDirectory(profile))}` });
+            infoEl.createDiv({ text: `Images are copied to ${exporter.getImagesDirectory(profile)}${movedNote(profile.staticImagesDirectory, exporter.getImagesDirectory(profile))}` });
+        }).catch(error => {
+            setting.setDesc(`Could not read the Hugo config: ${error.message}`);
+            setting.descEl.style.color = 'var(--text-error)';
+        });
+    }
 }
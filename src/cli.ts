@@ -0,0 +1,297 @@
+import * as path from 'path';
+// Use node's fs.promises API for async file operations
+import * as fs from 'fs/promises';
+import { ExportJob } from './export-job';
+import { EXPORT_MANIFEST_FILE, ExportIssue, ExportManifest, ExporterHost, HugoExporter } from './exporter';
+import { NodeVault } from './node-vault';
+import { HugoProfile, ObsidianHugoExportSettings, normalizeSettings } from './settings';
+import { VaultFile } from './vault';
+
+// Plugin folder name inside the vault config directory (the id in manifest.json)
+const PLUGIN_ID = 'hugo-export';
+// Backup folder of CLI exports that don't use the plugin's manifest (in the plugin folder or the backup directory)
+const CLI_BACKUP_FOLDER = 'cli-backups';
+
+const USAGE = `Usage: hugo-export --vault <dir> [--site <dir>] [--profile <name>] [options] [notes...]
+
+Exports notes with the settings saved by the Obsidian plugin in the vault.
+Without notes, the publish set of the profile is exported.
+
+Options:
+  --vault <dir>        Vault directory (required)
+  --site <dir>         Hugo site root; the profile's directories are moved under it
+  --profile <name>     Profile to export with (default: each note's own profile, or the default profile for the publish set)
+  --config-dir <name>  Vault config directory (default: .obsidian)
+  --manifest <file>    Read and update this export manifest and skip unchanged notes (with the plugin's
+                       export-manifest.json, undo covers the plugin's exports too)
+  --validate           Only check the notes for broken links, missing attachments and collisions
+  --strict             Don't export anything if the check finds errors (default: the plugin's strict mode setting)
+  --jobs <n>           Number of notes exported at the same time (default: the plugin's parallel exports setting)
+  --undo               Undo the last export of the CLI (or of the plugin, with its manifest) instead of exporting
+  --verbose            Print debug output
+  --help               Show this help`;
+
+// Parsed command line
+interface CliOptions {
+    vault: string;
+    site?: string;
+    profile?: string;
+    configDir: string;
+    manifest?: string;
+    jobs?: number;
+    validate: boolean;
+    strict: boolean;
+    undo: boolean;
+    verbose: boolean;
+    notes: string[];
+}
+
+// Thrown for bad arguments or settings; printed without a stack trace
+class CliError extends Error {}
+
+// Parses process arguments into CliOptions
+function parseArgs(args: string[]): CliOptions | null {
+    const options: Partial<CliOptions> = { configDir: '.obsidian', validate: false, strict: false, undo: false, verbose: false, notes: [] };
+    const valueOf = (index: number, flag: string) => {
+        const value = args[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new CliError(`Missing value for ${flag}`);
+        }
+        return value;
+    };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '--help':
+            case '-h':
+                return null;
+            case '--vault':
+                options.vault = valueOf(i++, arg);
+                break;
+            case '--site':
+                options.site = valueOf(i++, arg);
+                break;
+            case '--profile':
+                options.profile = valueOf(i++, arg);
+                break;
+            case '--config-dir':
+                options.configDir = valueOf(i++, arg);
+                break;
+            case '--manifest':
+                options.manifest = valueOf(i++, arg);
+                break;
+            case '--jobs': {
+                const jobs = Number(valueOf(i++, arg));
+                if (!Number.isInteger(jobs) || jobs < 1) {
+                    throw new CliError('--jobs must be a positive whole number');
+                }
+                options.jobs = jobs;
+                break;
+            }
+            case '--validate':
+                options.validate = true;
+                break;
+            case '--strict':
+                options.strict = true;
+                break;
+            case '--undo':
+                options.undo = true;
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            default:
+                if (arg.startsWith('--')) {
+                    throw new CliError(`Unknown option: ${arg}`);
+                }
+                options.notes?.push(arg);
+        }
+    }
+    if (!options.vault) {
+        throw new CliError('--vault is required');
+    }
+    return options as CliOptions;
+}
+
+// Reads a JSON file, or returns null if it doesn't exist
+async function readJson(filePath: string): Promise<any> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') {
+            return null;
+        }
+        throw new CliError(`Could not read ${filePath}: ${error.message}`);
+    }
+}
+
+// Moves a profile's output directories under the given site root, keeping their place relative to the configured site root
+function rebaseProfile(exporter: HugoExporter, profile: HugoProfile, site: string) {
+    const siteRoot = exporter.getSiteRoot(profile);
+    const rebase = (directory: string, fallback: string) => {
+        const relative = path.relative(siteRoot, exporter.resolvePath(directory));
+        // Directories outside the configured site get the usual Hugo location instead
+        return path.join(site, relative.startsWith('..') || path.isAbsolute(relative) ? fallback : relative);
+    };
+    profile.postsDirectory = rebase(profile.postsDirectory, 'content/posts');
+    profile.staticImagesDirectory = rebase(profile.staticImagesDirectory, 'static/images');
+    profile.siteRoot = site;
+}
+
+// Finds the note a command line argument names: a vault path (with or without '.md') or a link
+function findNote(vault: NodeVault, arg: string): VaultFile {
+    // Paths relative to the working directory are accepted too, when they point into the vault
+    const relative = path.relative(vault.root, path.resolve(arg));
+    const candidates = [arg, `${arg}.md`];
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        candidates.push(relative.split(path.sep).join('/'));
+    }
+    for (const candidate of candidates) {
+        const file = vault.getFileByPath(candidate);
+        if (file && file.extension === 'md') {
+            return file;
+        }
+    }
+    const linked = vault.getFirstLinkpathDest(arg, '');
+    if (linked && linked.extension === 'md') {
+        return linked;
+    }
+    throw new CliError(`Note not found in vault: ${arg}`);
+}
+
+// Writes the manifest if the run keeps one (--manifest)
+async function saveManifest(manifest: ExportManifest, manifestPath: string | null) {
+    if (manifestPath) {
+        await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+        await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    }
+}
+
+// Prints validation issues to stderr, one per line; returns the number of errors
+function printIssues(issues: ExportIssue[]): number {
+    for (const issue of issues) {
+        console.error(`${issue.file}${issue.line > 0 ? `:${issue.line}` : ''}: ${issue.severity}: ${issue.message}`);
+    }
+    return issues.filter(issue => issue.severity === 'error').length;
+}
+
+// Runs an export; returns the process exit code
+async function run(args: string[]): Promise<number> {
+    const options = parseArgs(args);
+    if (!options) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const vault = new NodeVault(options.vault);
+    const pluginDir = path.join(vault.root, options.configDir, 'plugins', PLUGIN_ID);
+    const settings: ObsidianHugoExportSettings = normalizeSettings(await readJson(path.join(pluginDir, 'data.json')));
+    // The CLI keeps no manifest unless --manifest names one. Only the plugin's own manifest shares the plugin's backups,
+    // since undoing an export restores the manifest it was made with; otherwise the CLI's backups are kept apart
+    const manifestPath = options.manifest ? path.resolve(options.manifest) : null;
+    const sharesPluginManifest = manifestPath === path.join(pluginDir, EXPORT_MANIFEST_FILE);
+    if (sharesPluginManifest && options.site) {
+        // The plugin would take the moved output paths for its own (and offer to delete them as orphans)
+        throw new CliError(`--site cannot be used with the plugin's manifest`);
+    }
+    if (!sharesPluginManifest && settings.backupDirectory.trim()) {
+        settings.backupDirectory = path.join(settings.backupDirectory.trim(), CLI_BACKUP_FOLDER);
+    }
+    const emptyManifest: ExportManifest = { notes: {}, attachments: {}, orphans: [] };
+    const savedManifest = manifestPath ? await readJson(manifestPath) : null;
+    const host: ExporterHost = {
+        settings,
+        exportManifest: Object.assign(emptyManifest, savedManifest),
+        defaultBackupDirectory: path.join(pluginDir, sharesPluginManifest ? 'backups' : CLI_BACKUP_FOLDER),
+        manifestMissing: savedManifest === null,
+        debug: (message: string) => {
+            if (options.verbose || settings.debugMode) {
+                console.error(`[Hugo Export DEBUG] ${message}`);
+            }
+        },
+    };
+    const exporter = new HugoExporter(vault, host);
+
+    let profile: HugoProfile | undefined;
+    if (options.profile) {
+        const wanted = options.profile.toLowerCase();
+        profile = settings.profiles.find(candidate => candidate.name.toLowerCase() === wanted);
+        if (!profile) {
+            throw new CliError(`Unknown profile '${options.profile}' (profiles: ${settings.profiles.map(candidate => candidate.name).join(', ')})`);
+        }
+    }
+    if (options.site) {
+        const site = path.resolve(options.site);
+        settings.profiles.forEach(candidate => rebaseProfile(exporter, candidate, site));
+    }
+
+    if (options.undo) {
+        const result = await exporter.undoLastExport();
+        if (!result) {
+            console.log('There is no export to undo.');
+            return 0;
+        }
+        await saveManifest(host.exportManifest, manifestPath);
+        console.log(`Undid the export of ${result.startedAt}: ${result.restored} file(s) restored, ${result.removed} removed.`);
+        return 0;
+    }
+
+    await vault.load();
+    const files = options.notes.length > 0
+        ? [...new Set(options.notes.map(arg => findNote(vault, arg)))]
+        : await exporter.getPublishSet(profile || exporter.getDefaultProfile());
+    if (files.length === 0) {
+        console.log('No notes to export.');
+        return 0;
+    }
+
+    if (options.validate || options.strict || settings.strictMode) {
+        const issues = await exporter.validate(files, profile);
+        const errorCount = printIssues(issues);
+        console.log(`Checked ${files.length} notes: ${errorCount} error(s), ${issues.length - errorCount} warning(s).`);
+        if (options.validate) {
+            return errorCount > 0 ? 1 : 0;
+        }
+        if (errorCount > 0) {
+            console.error('hugo-export: export aborted by strict mode');
+            return 1;
+        }
+    }
+
+    // The whole run is one batch for --undo; Ctrl+C finishes the notes being exported and skips the rest
+    const job = new ExportJob(exporter, files, { incremental: manifestPath !== null, profile, concurrency: options.jobs || settings.exportConcurrency });
+    const interrupt = () => {
+        console.error('hugo-export: cancelling, press Ctrl+C again to quit right away');
+        process.removeListener('SIGINT', interrupt);
+        job.cancel();
+    };
+    process.on('SIGINT', interrupt);
+    const results = await job.run();
+    process.removeListener('SIGINT', interrupt);
+    await saveManifest(host.exportManifest, manifestPath);
+
+    // Reported in the order of the notes, however the export interleaved them
+    for (const result of results) {
+        if (result.status === 'written' && result.note) {
+            console.log(`Exported '${result.file.path}' to '${result.note.target.contentPath}'`);
+        } else if (result.status === 'failed') {
+            console.error(`[Hugo Export ERROR] ${result.reason}`);
+        }
+        result.note?.warnings.forEach(warning => console.error(`[Hugo Export WARNING] ${result.file.path}: ${warning}`));
+    }
+    const unchangedCount = results.filter(result => result.status === 'unchanged').length;
+    const successCount = results.filter(result => result.status === 'written').length + unchangedCount;
+    if (job.cancelled) {
+        console.error(`hugo-export: export cancelled, ${results.filter(result => result.status === 'skipped').length} note(s) skipped`);
+    }
+    console.log(`Exported ${successCount}/${files.length} files` + (unchangedCount > 0 ? ` (${unchangedCount} unchanged).` : '.'));
+    return successCount === files.length ? 0 : 1;
+}
+
+run(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+        console.error(error instanceof CliError ? `hugo-export: ${error.message}` : error);
+        process.exit(2);
+    });
+
@@ -0,0 +1,92 @@
+import { ExportOutcome, HugoExporter, ProcessedNote } from './exporter';
+import { HugoProfile } from './settings';
+import { VaultFile } from './vault';
+
+// What an export job did with a note: written, unchanged since the last export, skipped (cancelled) or failed
+export type ExportFileStatus = ExportOutcome | 'skipped' | 'failed';
+
+// Result of exporting one note in a job
+export interface ExportFileResult {
+    file: VaultFile;
+    profile: HugoProfile;
+    status: ExportFileStatus;
+    // The processed note, for written and unchanged notes
+    note?: ProcessedNote;
+    // Why the note was skipped or failed
+    reason?: string;
+}
+
+// How an export job runs
+export interface ExportJobOptions {
+    // Skip notes whose output is unchanged (needs the manifest)
+    incremental?: boolean;
+    // Profile to export every note with; without one, each note uses its own profile
+    profile?: HugoProfile;
+    // Number of notes exported at the same time
+    concurrency: number;
+    // Called after each note, in the order they finish
+    onProgress?: (result: ExportFileResult, done: number, total: number) => void;
+}
+
+// Exports a list of notes with a bounded number running at a time, as one batch that can be undone; links between the
+// notes work even where the publish rules skip their targets.
+// Cancelling lets the notes already started finish and skips the rest.
+export class ExportJob {
+    exporter: HugoExporter;
+    files: VaultFile[];
+    options: ExportJobOptions;
+    private cancelRequested = false;
+
+    constructor(exporter: HugoExporter, files: VaultFile[], options: ExportJobOptions) {
+        this.exporter = exporter;
+        this.files = files;
+        this.options = options;
+    }
+
+    // Whether cancel() was called
+    get cancelled(): boolean {
+        return this.cancelRequested;
+    }
+
+    // Stops starting new notes; run() still resolves once the running ones are done
+    cancel() {
+        this.cancelRequested = true;
+    }
+
+    // Exports the notes; returns one result per note, in the order of the files (never rejects for a single note)
+    async run(): Promise<ExportFileResult[]> {
+        const results: ExportFileResult[] = new Array(this.files.length);
+        let next = 0;
+        let done = 0;
+        // Each worker takes the next note until none are left
+        const worker = async () => {
+            while (next < this.files.length) {
+                const index = next++;
+                results[index] = await this.exportOne(this.files[index]);
+                this.options.onProgress?.(results[index], ++done, this.files.length);
+            }
+        };
+        const workerCount = Math.max(1, Math.min(Math.floor(this.options.concurrency) || 1, this.files.length));
+        this.exporter.beginBatch(this.files);
+        try {
+            await Promise.all(Array.from({ length: workerCount }, worker));
+        } finally {
+            await this.exporter.endBatch();
+        }
+        return results;
+    }
+
+    // Exports a single note, turning errors into a failed result
+    private async exportOne(file: VaultFile): Promise<ExportFileResult> {
+        const profile = this.options.profile || this.exporter.getProfileForFile(file);
+        if (this.cancelRequested) {
+            return { file, profile, status: 'skipped', reason: 'Export cancelled' };
+        }
+        try {
+            const { outcome, note } = await this.exporter.exportNote(file, this.options.incremental, profile);
+            return { file, profile, status: outcome, note };
+        } catch (error) {
+            return { file, profile, status: 'failed', reason: error.message };
+        }
+    }
+}
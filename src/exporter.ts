@@ -0,0 +1,2447 @@
+import * as path from 'path';
+// Use node's fs.promises API for async file operations
+import * as fs from 'fs/promises';
+import matter from 'gray-matter';
+// Use node's os module to resolve home directory
+import { homedir } from 'os';
+// Use node's crypto module to hash exported content
+import { createHash } from 'crypto';
+import { ExportVault, INLINE_TAG_REGEX, VaultFile, normalizePath, parseFrontMatterAliases, parseLinktext } from './vault';
+import {
+    AttachmentKind,
+    HugoProfile,
+    LANGUAGE_KEY,
+    ObsidianHugoExportSettings,
+    OUTPUT_MODE_KEY,
+    OutputMode,
+    PROFILE_KEY,
+    SECTION_KEY,
+    TEMPLATE_KEY,
+    TEMPLATE_PLACEHOLDERS,
+    TRANSLATION_KEY,
+} from './settings';
+import { parseToml } from './toml';
+import { HugoSiteConfig, findHugoConfigFiles, loadHugoConfig } from './hugo-config';
+
+// Attachment kinds by (lower-case) file extension; anything else is a plain 'file'
+const ATTACHMENT_EXTENSIONS: Record<Exclude<AttachmentKind, 'file'>, string[]> = {
+    image: ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp', 'avif'],
+    video: ['mp4', 'webm', 'ogv', 'mov', 'mkv'],
+    audio: ['mp3', 'wav', 'm4a', 'ogg', 'oga', 'flac', '3gp'],
+    pdf: ['pdf'],
+};
+
+// Front matter keys Hugo reads as dates
+const HUGO_DATE_KEYS = ['date', 'lastmod', 'publishDate', 'expiryDate'];
+
+// Month names for the ':monthname' permalink token
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Matches the first line of a callout: '> [!type]' plus optional fold marker (+/-) and title
+const CALLOUT_HEADER_REGEX = /^ {0,3}> ?\[!([\w-]+)\]([+-]?)[ \t]*(.*)$/;
+
+// The content directory and URL prefix a note is routed to (by sectionRoutes or its 'section' front matter)
+interface NoteRoute {
+    directory: string;
+    urlPrefix: string;
+}
+
+// Where a single exported note and its attachments end up
+export interface ExportTarget {
+    mode: OutputMode;
+    // Absolute path of the markdown file to write
+    contentPath: string;
+    // Absolute directory images are copied into (all attachments in bundles; see getAttachmentLocation)
+    attachmentsDirectory: string;
+    // Prefix for attachment URLs in the markdown ('' means relative to the page, as in bundles)
+    attachmentsUrlPrefix: string;
+    // Language of the note ('' when the profile ignores languages)
+    language: string;
+}
+
+// An attachment copied (or, in a dry run, to be copied) for a note
+export interface AttachmentCopy {
+    // Vault path of the source file
+    source: string;
+    // Absolute destination path
+    destination: string;
+}
+
+// How bad a problem found during an export is; errors make strict mode abort the export
+export type IssueSeverity = 'error' | 'warning';
+
+// What kind of problem an ExportIssue is
+export type IssueKind =
+    | 'missing-attachment'
+    | 'missing-note'
+    | 'unpublished-note'
+    | 'broken-embed'
+    | 'duplicate-slug'
+    | 'output-collision'
+    | 'attachment-collision'
+    | 'template-error'
+    | 'export-error';
+
+// A problem found while processing a note (or, for collisions, across the notes of a validation run)
+export interface ExportIssue {
+    severity: IssueSeverity;
+    kind: IssueKind;
+    // Vault path of the note the problem is in (the embedded note for problems inside embeds)
+    file: string;
+    // Source text at fault, e.g. '[[Missing Note]]', used to find the line ('' if there is none)
+    match: string;
+    // 1-based line of match in the note, 0 if unknown; filled in by validate()
+    line: number;
+    message: string;
+}
+
+// A wikilink that was turned into a link to another note
+export interface NoteLink {
+    // Vault path of the note containing the link
+    file: string;
+    match: string;
+    // Vault path of the linked note
+    target: string;
+}
+
+// State shared by the content processing steps of a single export
+export interface ExportContext {
+    profile: HugoProfile;
+    target: ExportTarget;
+    // Dry runs (previews) compute everything but copy nothing
+    dryRun: boolean;
+    // Problems worth telling the user about (e.g. unresolved links), reported after the export
+    warnings: string[];
+    issues: ExportIssue[];
+    links: NoteLink[];
+    attachments: AttachmentCopy[];
+    // Notes (and sections, 'path#subpath') currently being transcluded, outermost first; used to detect cycles
+    embedStack: string[];
+    // Inline footnotes converted so far (embedded notes included), used for unique labels
+    inlineFootnoteCount: number;
+    // Vault path -> whether the note is in the export batch or the publish rules select it; filled for linked notes before
+    // links are converted
+    publishedNotes: Map<string, boolean>;
+    // What the privacy rules removed, summarized in the debug output
+    redactions: string[];
+    // Inline tags that only appear in removed parts of the note, kept out of the exported tags
+    redactedTags: Set<string>;
+}
+
+// Result of running the conversion pipeline on a note
+export interface ProcessedNote {
+    profile: HugoProfile;
+    target: ExportTarget;
+    frontMatter: Record<string, any>;
+    body: string;
+    // Front matter and body joined in the configured format
+    content: string;
+    warnings: string[];
+    // Every problem found, whatever the unresolved link policy; see validate()
+    issues: ExportIssue[];
+    // Links to other notes, checked against the publish set by validate()
+    links: NoteLink[];
+    attachments: AttachmentCopy[];
+    // Export history recorded in the manifest: when the note was first exported, the hash of the note without
+    // a generated lastmod, and when that hash last changed (the 'content' lastmod)
+    firstExportedAt: string;
+    contentHash: string;
+    changedAt: string;
+    // Generated date to write back into the note (pinDates), null if nothing needs pinning
+    pinnedDate: string | null;
+}
+
+// What exportFile did with a note
+export type ExportOutcome = 'written' | 'unchanged';
+
+// Manifest record of a single exported note
+export interface ExportManifestEntry {
+    // Absolute paths of every file written for the note (markdown first, then attachments)
+    outputs: string[];
+    // Hash of the generated markdown
+    hash: string;
+    exportedAt: string;
+    // Missing in manifests written before dates were tracked; exportedAt stands in for firstExportedAt
+    firstExportedAt?: string;
+    contentHash?: string;
+    changedAt?: string;
+}
+
+// Record of everything the plugin wrote, used to skip unchanged notes and to clean up after itself.
+// Only files listed here are ever deleted.
+export interface ExportManifest {
+    // Keyed by profile name, then by vault path of the note
+    notes: Record<string, Record<string, ExportManifestEntry>>;
+    // Vault path and content hash of each copied attachment, keyed by absolute destination path
+    attachments: Record<string, { source: string; hash: string }>;
+    // Files the plugin wrote that no note claims anymore (renamed, unpublished or removed)
+    orphans: string[];
+}
+
+// Manifest file name, stored in the plugin's folder inside the vault config directory
+export const EXPORT_MANIFEST_FILE = 'export-manifest.json';
+
+// A file an export batch changed, with the backup of its previous content (null if the batch created the file)
+export interface ExportJournalEntry {
+    path: string;
+    backup: string | null;
+}
+
+// Record of an export batch, saved with its backups so the batch can be undone
+export interface ExportJournal {
+    startedAt: string;
+    // The manifest as it was before the batch
+    manifest: ExportManifest;
+    entries: ExportJournalEntry[];
+}
+
+// Journal file name inside the backup folder of a batch
+const JOURNAL_FILE = 'journal.json';
+
+// Whoever runs the exporter (the plugin or the CLI) owns the settings and the manifest
+export interface ExporterHost {
+    settings: ObsidianHugoExportSettings;
+    exportManifest: ExportManifest;
+    // Where backups go unless settings.backupDirectory says otherwise
+    defaultBackupDirectory: string;
+    // Set when no manifest was found (e.g. a first command line run): notes never exported before are recorded as
+    // first exported at their file creation time rather than now, so the date of an undated note doesn't depend on the run
+    manifestMissing?: boolean;
+    debug(message: string): void;
+}
+
+// The export batch in progress: where its backups go and what it changed so far
+interface ExportBatch {
+    directory: string;
+    journal: ExportJournal;
+    // Backups started so far, for unique backup names while attachments are copied in parallel
+    backupCount: number;
+    // Journal saves run one after another
+    saving: Promise<void>;
+}
+
+// The conversion pipeline: publish set selection, markdown processing, attachment copying and manifest bookkeeping.
+// It knows nothing about Obsidian's UI; everything it needs from the vault goes through ExportVault.
+export class HugoExporter {
+    vault: ExportVault;
+    host: ExporterHost;
+    private batch: ExportBatch | null = null;
+    // Nested beginBatch calls join the outermost batch
+    private batchDepth = 0;
+    // Vault paths of the notes the open batch exports; links between them work even if the publish rules skip them
+    private batchNotes = new Set<string>();
+    // Hugo config by site root, with the config files and modification times it was read from
+    private siteConfigs = new Map<string, { signature: string, config: HugoSiteConfig | null }>();
+
+    constructor(vault: ExportVault, host: ExporterHost) {
+        this.vault = vault;
+        this.host = host;
+    }
+
+    // Settings and manifest are read through the host on every use, since it may replace them (e.g. on reload)
+    private get settings(): ObsidianHugoExportSettings {
+        return this.host.settings;
+    }
+
+    private get exportManifest(): ExportManifest {
+        return this.host.exportManifest;
+    }
+
+    // The profile used for notes that don't choose one
+    getDefaultProfile(): HugoProfile {
+        return this.settings.profiles.find(profile => profile.name === this.settings.defaultProfile) || this.settings.profiles[0];
+    }
+
+    // The profile a note picks with PROFILE_KEY in its front matter, or the default profile
+    getProfileForFile(file: VaultFile): HugoProfile {
+        const wanted = this.vault.getFrontMatter(file)?.[PROFILE_KEY];
+        if (typeof wanted === 'string') {
+            const profile = this.settings.profiles.find(candidate => candidate.name.toLowerCase() === wanted.trim().toLowerCase());
+            if (profile) {
+                return profile;
+            }
+            this.debug(`Unknown profile '${wanted}' in ${file.path}, using the default profile`);
+        }
+        return this.getDefaultProfile();
+    }
+
+    // The confidential tag a note carries (see confidentialTags), or null
+    getConfidentialTag(file: VaultFile): string | null {
+        const fileTags = this.getFileTags(file);
+        const tag = this.settings.confidentialTags.find(candidate => this.hasTag(fileTags, candidate));
+        return tag ? tag.replace(/^#/, '') : null;
+    }
+
+    // Collects the notes selected by the publish rules (folders, tags, flag, saved search)
+    async getPublishSet(profile: HugoProfile): Promise<VaultFile[]> {
+        const selected: VaultFile[] = [];
+        const reportPath = normalizePath(this.settings.validationReportPath);
+        for (const file of this.vault.getMarkdownFiles()) {
+            // The validation report lives in the vault but is never published
+            if (file.path !== reportPath && await this.matchesPublishRules(file, profile)) {
+                selected.push(file);
+            }
+        }
+        this.debug(`Publish rules of profile '${profile.name}' selected ${selected.length} notes.`);
+        return this.expandWithLinkedNotes(selected, profile);
+    }
+
+    // Checks a note against the publish rules; an explicit 'publish: false' or a confidential tag always excludes it
+    async matchesPublishRules(file: VaultFile, profile: HugoProfile): Promise<boolean> {
+        const flag = this.getPublishFlag(file, profile);
+        if (flag === false || this.getConfidentialTag(file)) {
+            return false;
+        }
+        if (profile.publishByFlag && flag === true) {
+            return true;
+        }
+        if (profile.publishFolders.some(folder => this.isInFolder(file, folder))) {
+            return true;
+        }
+        if (profile.publishTags.length > 0) {
+            const fileTags = this.getFileTags(file);
+            if (profile.publishTags.some(tag => this.hasTag(fileTags, tag))) {
+                return true;
+            }
+        }
+        if (profile.publishSearch.trim()) {
+            return this.matchesSearch(file, profile.publishSearch);
+        }
+        return false;
+    }
+
+    // Adds notes that the given notes link to (transitively) and that are flagged as publishable
+    expandWithLinkedNotes(files: VaultFile[], profile: HugoProfile): VaultFile[] {
+        if (!profile.publishFollowLinks) {
+            return files;
+        }
+        const result = new Map(files.map(file => [file.path, file] as [string, VaultFile]));
+        const queue = [...files];
+        while (queue.length > 0) {
+            const current = queue.shift() as VaultFile;
+            for (const linkedPath of this.vault.getLinkedPaths(current)) {
+                const linked = this.vault.getFileByPath(linkedPath);
+                if (linked && linked.extension === 'md' && !result.has(linked.path) && this.getPublishFlag(linked, profile) === true && !this.getConfidentialTag(linked)) {
+                    this.debug(`Following link from ${current.path} to publishable note ${linked.path}`);
+                    result.set(linked.path, linked);
+                    queue.push(linked);
+                }
+            }
+        }
+        return [...result.values()];
+    }
+
+    // Reads the publish flag from front matter: true, false, or undefined when not set
+    getPublishFlag(file: VaultFile, profile: HugoProfile): boolean | undefined {
+        const value = this.vault.getFrontMatter(file)?.[profile.publishFlagKey];
+        if (value === true || value === 'true') {
+            return true;
+        }
+        if (value === false || value === 'false') {
+            return false;
+        }
+        return undefined;
+    }
+
+    // True if the file lives in the folder (or one of its subfolders); '' or '/' means the whole vault
+    isInFolder(file: VaultFile, folderPath: string): boolean {
+        const folder = folderPath.replace(/^\/+|\/+$/g, '');
+        return !folder || file.path.startsWith(folder + '/');
+    }
+
+    // All tags of a note (front matter and inline), without '#'
+    private getFileTags(file: VaultFile): string[] {
+        return this.vault.getTags(file).map(tag => tag.replace(/^#/, ''));
+    }
+
+    // Tag match that includes nested tags: 'blog' matches 'blog' and 'blog/tech'
+    private hasTag(fileTags: string[], tag: string): boolean {
+        const wanted = tag.replace(/^#/, '').toLowerCase();
+        return fileTags.some(fileTag => {
+            const candidate = fileTag.toLowerCase();
+            return candidate === wanted || candidate.startsWith(wanted + '/');
+        });
+    }
+
+    // Evaluates a saved search: 'path:', 'file:', 'tag:' and plain (content) terms, '-' negates, all must match
+    private async matchesSearch(file: VaultFile, query: string): Promise<boolean> {
+        let content: string | null = null;
+        const termRegex = /(-?)(?:(path|file|tag):)?("[^"]*"|\S+)/g;
+        for (const [, negate, operator, rawValue] of query.matchAll(termRegex)) {
+            const value = rawValue.replace(/^"|"$/g, '').toLowerCase();
+            let matches: boolean;
+            switch (operator) {
+                case 'path':
+                    matches = file.path.toLowerCase().includes(value);
+                    break;
+                case 'file':
+                    matches = file.name.toLowerCase().includes(value);
+                    break;
+                case 'tag':
+                    matches = this.hasTag(this.getFileTags(file), value);
+                    break;
+                default:
+                    if (content === null) {
+                        content = (await this.vault.read(file)).toLowerCase();
+                    }
+                    matches = content.includes(value);
+            }
+            if (matches === (negate === '-')) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    // The Hugo site root of a profile: the configured one, or the folder holding the 'content' directory of postsDirectory
+    getSiteRoot(profile: HugoProfile): string {
+        if (profile.siteRoot.trim()) {
+            return this.resolvePath(profile.siteRoot.trim());
+        }
+        const postsDir = this.resolvePath(profile.postsDirectory);
+        let dir = postsDir;
+        while (path.dirname(dir) !== dir) {
+            if (path.basename(dir) === 'content') {
+                return path.dirname(dir);
+            }
+            dir = path.dirname(dir);
+        }
+        return path.dirname(postsDir);
+    }
+
+    // Reads the Hugo config of a profile's site (if useSiteConfig is on), again only when its files changed.
+    // Returns null if the site has none; a config that can't be parsed is an error.
+    async loadSiteConfig(profile: HugoProfile): Promise<HugoSiteConfig | null> {
+        if (!profile.useSiteConfig) {
+            return null;
+        }
+        const siteRoot = this.getSiteRoot(profile);
+        const files = await findHugoConfigFiles(siteRoot);
+        const times = await Promise.all(files.map(file => fs.stat(file).then(stat => stat.mtimeMs, () => 0)));
+        const signature = files.map((file, index) => `${file}@${times[index]}`).join('\n');
+        const cached = this.siteConfigs.get(siteRoot);
+        if (cached && cached.signature === signature) {
+            return cached.config;
+        }
+        const config = await loadHugoConfig(siteRoot, files);
+        this.debug(config ? `Read Hugo config from ${files.join(', ')}` : `No Hugo config found in ${siteRoot}`);
+        this.siteConfigs.set(siteRoot, { signature, config });
+        return config;
+    }
+
+    // The Hugo config loadSiteConfig last read for a profile's site (null if there is none or it isn't used)
+    private getSiteConfig(profile: HugoProfile): HugoSiteConfig | null {
+        return profile.useSiteConfig ? this.siteConfigs.get(this.getSiteRoot(profile))?.config || null : null;
+    }
+
+    // Prefixes a site-relative URL ('/posts/x/') with the path of the site's baseURL ('/blog/posts/x/')
+    private withBasePath(url: string, profile: HugoProfile): string {
+        const basePath = this.getSiteConfig(profile)?.basePath || '/';
+        return basePath !== '/' && url.startsWith('/') && !url.startsWith('//') ? `${basePath}${url.slice(1)}` : url;
+    }
+
+    // The URL a directory inside one of the site's static directories is served at, e.g. '/images/' for
+    // static/images; null for directories outside them
+    private getStaticUrl(directory: string, profile: HugoProfile): string | null {
+        const staticDirs = this.getSiteConfig(profile)?.staticDirs || [path.join(this.getSiteRoot(profile), 'static')];
+        for (const staticDir of staticDirs) {
+            const relative = path.relative(staticDir, directory);
+            if (this.isInDirectory(directory, staticDir)) {
+                return this.withBasePath(`/${relative.split(path.sep).filter(segment => segment).map(segment => `${segment}/`).join('')}`, profile);
+            }
+        }
+        return null;
+    }
+
+    // Finds the manifest entry of a note; a note without one adopts the entry of a vanished note with the same output (rename)
+    private findManifestEntry(file: VaultFile, hash: string, profile: HugoProfile): ExportManifestEntry | undefined {
+        const notes = this.getManifestNotes(profile.name);
+        const entry = notes[file.path];
+        if (entry) {
+            return entry;
+        }
+        for (const [notePath, candidate] of Object.entries(notes)) {
+            if (candidate.hash === hash && !this.vault.getFileByPath(notePath)) {
+                this.debug(`Detected rename: ${notePath} -> ${file.path}`);
+                delete notes[notePath];
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    // Manifest entries of a profile (created on first use)
+    getManifestNotes(profileName: string): Record<string, ExportManifestEntry> {
+        if (!this.exportManifest.notes[profileName]) {
+            this.exportManifest.notes[profileName] = {};
+        }
+        return this.exportManifest.notes[profileName];
+    }
+
+    // Moves a profile's manifest entries when the profile is renamed
+    renameManifestProfile(oldName: string, newName: string) {
+        if (oldName !== newName && this.exportManifest.notes[oldName]) {
+            this.exportManifest.notes[newName] = this.exportManifest.notes[oldName];
+            delete this.exportManifest.notes[oldName];
+        }
+    }
+
+    // Stores the outputs of an export in the manifest; outputs the note no longer produces become orphans
+    private recordExport(file: VaultFile, note: ProcessedNote, hash: string, previous?: ExportManifestEntry) {
+        const outputs = [note.target.contentPath, ...this.unique(note.attachments.map(attachment => attachment.destination))];
+        if (previous) {
+            const stale = previous.outputs.filter(output => !outputs.includes(output));
+            this.exportManifest.orphans.push(...stale);
+        }
+        this.exportManifest.orphans = this.exportManifest.orphans.filter(orphan => !outputs.includes(orphan));
+        this.getManifestNotes(note.profile.name)[file.path] = {
+            outputs,
+            hash,
+            exportedAt: new Date().toISOString(),
+            firstExportedAt: note.firstExportedAt,
+            contentHash: note.contentHash,
+            changedAt: note.changedAt,
+        };
+    }
+
+    // Drops a note from the manifest and marks its outputs as orphans
+    retireManifestEntry(profileName: string, notePath: string) {
+        const notes = this.getManifestNotes(profileName);
+        const entry = notes[notePath];
+        if (!entry) {
+            return;
+        }
+        this.debug(`Retiring ${profileName} manifest entry for ${notePath}`);
+        this.exportManifest.orphans.push(...entry.outputs);
+        delete notes[notePath];
+    }
+
+    // Hashes content for change detection
+    private hashContent(content: string | Buffer): string {
+        return createHash('sha1').update(content).digest('hex');
+    }
+
+    // Checks whether a file or directory exists on disk
+    async pathExists(filePath: string): Promise<boolean> {
+        try {
+            await fs.access(filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    // Resolves a path string, handling '~' and ensuring it's absolute
+    resolvePath(rawPath: string): string {
+        let resolved = rawPath;
+        // Expand home directory ('~')
+        if (rawPath.startsWith('~')) {
+            resolved = path.join(homedir(), rawPath.slice(1));
+        }
+        // Use path.resolve to ensure the path is absolute
+        return path.resolve(resolved);
+    }
+
+    // Runs the pipeline on a note and writes the result; incremental exports skip notes whose output is unchanged.
+    // The manifest is updated in memory, saving it is up to the caller.
+    async exportNote(file: VaultFile, incremental = false, profile?: HugoProfile): Promise<{ outcome: ExportOutcome, note: ProcessedNote }> {
+        if (file.extension !== 'md') {
+             throw new Error(`Cannot export non-markdown file: ${file.name}`);
+        }
+        const exportProfile = profile || this.getProfileForFile(file);
+        this.debug(`Starting export for: ${file.path} (profile '${exportProfile.name}')`);
+
+        try {
+            // Read the markdown content from the vault
+            const content = await this.vault.read(file);
+            // Process markdown (front matter, links, images)
+            const processedNote = await this.processMarkdown(file, content, exportProfile);
+            const hash = this.hashContent(processedNote.content);
+            const previous = this.findManifestEntry(file, hash, exportProfile);
+            // Skip notes whose output is identical to what was written last time
+            if (incremental && previous && previous.hash === hash && await this.pathExists(processedNote.target.contentPath)) {
+                this.debug(`Skipping unchanged note: ${file.path}`);
+                this.recordExport(file, processedNote, hash, previous);
+                await this.pinDate(file, processedNote);
+                return { outcome: 'unchanged', note: processedNote };
+            }
+            // Write the processed content to the Hugo directory
+            await this.writeHugoFile(processedNote);
+            this.recordExport(file, processedNote, hash, previous);
+            await this.pinDate(file, processedNote);
+            return { outcome: 'written', note: processedNote };
+        } catch (error) {
+            this.debug(`Error during export of ${file.name}: ${error.message}`);
+            // Re-throwing allows the caller (e.g., exportFiles) to catch and report
+            throw new Error(`Export failed for ${file.name}: ${error.message}`);
+        }
+    }
+
+    // Writes a generated date back into the note (pinDates), under the key the note would use for it
+    private async pinDate(file: VaultFile, note: ProcessedNote) {
+        if (!note.pinnedDate) {
+            return;
+        }
+        // A key renamed to 'date' (e.g. 'created') reads more naturally in Obsidian than 'date' itself
+        const key = Object.keys(note.profile.frontMatterKeyMap).find(from => note.profile.frontMatterKeyMap[from] === 'date') || 'date';
+        this.debug(`Pinning ${key}: ${note.pinnedDate} in ${file.path}`);
+        await this.vault.setFrontMatterValue(file, key, note.pinnedDate);
+    }
+
+    // Dry-runs the pipeline over the notes and collects problems: missing attachments, links to missing or unpublished notes
+    // (including notes outside the publish set), embeds that can't be inlined, duplicate URLs and output collisions.
+    // Without a profile every note is checked with its own profile. Errors come first, then by note and line.
+    async validate(files: VaultFile[], profile?: HugoProfile): Promise<ExportIssue[]> {
+        const issues: ExportIssue[] = [];
+        // Claimed outputs, URLs and attachment destinations -> vault path of the note (or attachment) claiming them
+        const outputs = new Map<string, string>();
+        const urls = new Map<string, string>();
+        const attachmentSources = new Map<string, string>();
+
+        // The notes are checked as one batch, so links between them count as published
+        this.beginBatch(files);
+        try {
+            for (const file of files) {
+                const noteProfile = profile || this.getProfileForFile(file);
+                let note: ProcessedNote;
+                try {
+                    note = await this.processMarkdown(file, await this.vault.read(file), noteProfile, true);
+                } catch (error) {
+                    issues.push({ severity: 'error', kind: 'export-error', file: file.path, match: '', line: 0, message: `Export failed: ${error.message}` });
+                    continue;
+                }
+                issues.push(...note.issues);
+
+                const noteIssue = (kind: IssueKind, message: string) =>
+                    issues.push({ severity: 'error', kind, file: file.path, match: '', line: 0, message });
+                const contentPath = note.target.contentPath;
+                const outputOwner = outputs.get(contentPath) || this.getOutputOwner(contentPath, noteProfile, file);
+                if (outputOwner) {
+                    noteIssue('output-collision', `Exports to '${contentPath}', like '${outputOwner}'`);
+                }
+                outputs.set(contentPath, file.path);
+                const url = this.getNoteUrl(file, noteProfile);
+                const urlOwner = urls.get(url);
+                if (urlOwner && !outputOwner) {
+                    noteIssue('duplicate-slug', `Same URL '${url}' as '${urlOwner}'`);
+                }
+                urls.set(url, file.path);
+
+                for (const attachment of note.attachments) {
+                    const source = attachmentSources.get(attachment.destination);
+                    if (source && source !== attachment.source) {
+                        issues.push({
+                            severity: 'warning', kind: 'attachment-collision', file: file.path, match: path.posix.basename(attachment.source), line: 0,
+                            message: `'${attachment.source}' and '${source}' are both copied to '${attachment.destination}'; the later one gets a numbered name`,
+                        });
+                    }
+                    attachmentSources.set(attachment.destination, source || attachment.source);
+                }
+            }
+        } finally {
+            await this.endBatch();
+        }
+
+        await this.locateIssues(issues);
+        const severityOrder = (issue: ExportIssue) => (issue.severity === 'error' ? 0 : 1);
+        issues.sort((a, b) => severityOrder(a) - severityOrder(b) || a.file.localeCompare(b.file) || a.line - b.line);
+        this.debug(`Validation of ${files.length} notes found ${issues.length} issue(s)`);
+        return issues;
+    }
+
+    // The note an existing output file was written for, if it is another note that still exists (renamed notes don't count)
+    private getOutputOwner(contentPath: string, profile: HugoProfile, file: VaultFile): string | undefined {
+        for (const [notePath, entry] of Object.entries(this.getManifestNotes(profile.name))) {
+            if (notePath !== file.path && entry.outputs[0] === contentPath && this.vault.getFileByPath(notePath)) {
+                return notePath;
+            }
+        }
+        return undefined;
+    }
+
+    // Fills in the line of each issue by finding its match in the note; repeated matches take successive occurrences
+    private async locateIssues(issues: ExportIssue[]) {
+        const contents = new Map<string, string>();
+        const searchFrom = new Map<string, number>();
+        for (const issue of issues) {
+            const file = this.vault.getFileByPath(issue.file);
+            if (!issue.match || !file) {
+                continue;
+            }
+            if (!contents.has(issue.file)) {
+                contents.set(issue.file, await this.vault.read(file));
+            }
+            const content = contents.get(issue.file) as string;
+            const key = `${issue.file}\n${issue.match}`;
+            let index = content.indexOf(issue.match, searchFrom.get(key) || 0);
+            if (index === -1) {
+                index = content.indexOf(issue.match);
+            }
+            if (index !== -1) {
+                issue.line = content.slice(0, index).split('\n').length;
+                searchFrom.set(key, index + issue.match.length);
+            }
+        }
+    }
+
+    // Processes the raw markdown content for Hugo compatibility
+    async processMarkdown(file: VaultFile, content: string, profile: HugoProfile, dryRun = false): Promise<ProcessedNote> {
+        this.debug(`Processing markdown for: ${file.path}`);
+        // URLs, languages and static directories can come from the site's Hugo config
+        await this.loadSiteConfig(profile);
+        // Parse front matter and body using gray-matter
+        const { data: existingFrontMatter, content: body } = matter(content);
+        // Decide where the note goes (flat file or page bundle)
+        const target = this.resolveExportTarget(file, existingFrontMatter, profile);
+        // The export history of the note and the date a note without one gets
+        const now = new Date();
+        const previous = this.getManifestNotes(profile.name)[file.path];
+        const fileTimes = await this.vault.getFileTimes(file);
+        const firstExportedAt = previous?.firstExportedAt || previous?.exportedAt || (this.host.manifestMissing ? new Date(fileTimes.created) : now).toISOString();
+        const fallbackDate = this.formatFrontMatterDate(this.getFallbackDate(profile, firstExportedAt, fileTimes.created, now), profile);
+        // Confidential notes never leave the vault
+        const confidentialTag = this.getConfidentialTag(file);
+        if (confidentialTag) {
+            throw new Error(`Refusing to export '${file.path}': it is tagged #${confidentialTag}`);
+        }
+        // Process the main content (links, images, handling code blocks)
+        const context: ExportContext = {
+            profile, target, dryRun, warnings: [], issues: [], links: [], attachments: [], embedStack: [file.path], inlineFootnoteCount: 0,
+            publishedNotes: new Map(), redactions: [], redactedTags: new Set(),
+        };
+        const processedBody = await this.processContent(file, body, context);
+        // Generate or update front matter (after the body, so tags of removed sections can be left out)
+        const archetype = profile.useArchetypes ? await this.loadArchetype(file, target, profile, context) : {};
+        const finalFrontMatter = this.generateFrontMatter(file, existingFrontMatter, profile, fallbackDate, context, archetype);
+        if (context.redactions.length > 0) {
+            this.debug(`Redacted from ${file.path}: ${context.redactions.join('; ')}`);
+        }
+        const exportedBody = await this.applyTemplate(file, processedBody, existingFrontMatter, finalFrontMatter, context);
+
+        // lastmod goes in last: with the 'content' source it depends on whether the rest of the note changed
+        const contentHash = this.hashContent(this.stringifyNote(exportedBody, finalFrontMatter, profile));
+        const changedAt = previous?.contentHash === contentHash && previous.changedAt ? previous.changedAt : now.toISOString();
+        const frontMatter = this.addLastmod(file, finalFrontMatter, profile, profile.lastmodSource === 'modified' ? new Date(fileTimes.modified) : new Date(changedAt));
+        // Reassemble the file with updated front matter and processed body
+        return {
+            profile,
+            target,
+            frontMatter,
+            body: exportedBody,
+            content: this.stringifyNote(exportedBody, frontMatter, profile),
+            warnings: context.warnings,
+            issues: context.issues,
+            links: context.links,
+            attachments: context.attachments,
+            firstExportedAt,
+            contentHash,
+            changedAt,
+            pinnedDate: profile.pinDates && frontMatter.date === fallbackDate ? this.toPinnedValue(fallbackDate) : null,
+        };
+    }
+
+    // The date of a note without one, from the profile's date source
+    private getFallbackDate(profile: HugoProfile, firstExportedAt: string, created: number, now: Date): Date {
+        switch (profile.dateSource) {
+            case 'created':
+                return new Date(created);
+            case 'now':
+                return now;
+            default:
+                return new Date(firstExportedAt);
+        }
+    }
+
+    // Front matter of the site's archetype for the note's section: archetypes/<section>.md or archetypes/<section>/index.md,
+    // else the default archetype. Lines with Go template actions ({{ .Date }}, {{ replace .Name ... }}) are left out,
+    // since only Hugo can run them; the exporter fills in title and date itself.
+    private async loadArchetype(file: VaultFile, target: ExportTarget, profile: HugoProfile, context: ExportContext): Promise<Record<string, any>> {
+        const contentDir = this.getLanguageDirectory(this.getContentDirectory(profile), target.language, profile);
+        const parts = path.relative(contentDir, target.contentPath).split(path.sep);
+        // Pages right in the content directory have no section
+        const section = parts.length > 1 && parts[0] !== '..' ? parts[0] : '';
+        const archetypesDir = path.join(this.getSiteRoot(profile), 'archetypes');
+        const candidates = [...(section ? [`${section}.md`, path.join(section, 'index.md')] : []), 'default.md', path.join('default', 'index.md')];
+        for (const candidate of candidates) {
+            const archetypePath = path.join(archetypesDir, candidate);
+            let content: string;
+            try {
+                content = await fs.readFile(archetypePath, 'utf8');
+            } catch {
+                continue;
+            }
+            this.debug(`Using archetype ${archetypePath} for ${file.path}`);
+            try {
+                return this.parseArchetype(content);
+            } catch (error) {
+                context.warnings.push(`Ignoring archetype '${archetypePath}': ${error.message}`);
+                this.addIssue(context, 'warning', 'template-error', file, '', `Archetype '${archetypePath}' could not be read: ${error.message}`);
+                return {};
+            }
+        }
+        this.debug(`No archetype for section '${section}' in ${archetypesDir}`);
+        return {};
+    }
+
+    // Parses the YAML (---) or TOML (+++) front matter of an archetype, without the lines holding template actions
+    private parseArchetype(content: string): Record<string, any> {
+        const match = content.match(/^(---|\+\+\+)[ \t]*\r?\n([\s\S]*?)\r?\n\1[ \t]*(?:\r?\n|$)/);
+        if (!match) {
+            if (content.trimStart().startsWith('{')) {
+                throw new Error('JSON front matter is not supported in archetypes');
+            }
+            return {};
+        }
+        const lines = match[2].split(/\r?\n/).filter(line => !line.includes('{{'));
+        const data = match[1] === '+++' ? parseToml(lines.join('\n')) : matter(`---\n${lines.join('\n')}\n---\n`).data;
+        return this.isPlainObject(data) ? data : {};
+    }
+
+    // Wraps the converted body in the note's export template (TEMPLATE_KEY front matter, else the profile's), filling in
+    // its placeholders. The template is inserted as written: links in it are not converted.
+    private async applyTemplate(file: VaultFile, body: string, noteFrontMatter: any, frontMatter: Record<string, any>, context: ExportContext): Promise<string> {
+        const override = noteFrontMatter[TEMPLATE_KEY];
+        const templatePath = (typeof override === 'string' ? override : context.profile.exportTemplate).trim();
+        if (!templatePath || templatePath.toLowerCase() === 'none') {
+            return body;
+        }
+        const normalized = normalizePath(templatePath);
+        const templateFile = this.vault.getFileByPath(normalized) || this.vault.getFileByPath(`${normalized}.md`);
+        if (!templateFile) {
+            context.warnings.push(`Export template '${templatePath}' not found; exported the body only`);
+            this.addIssue(context, 'error', 'template-error', file, typeof override === 'string' ? override : '', `Export template '${templatePath}' not found`);
+            return body;
+        }
+        this.debug(`Applying export template ${templateFile.path} to ${file.path}`);
+        // The template note's own front matter (e.g. for Obsidian) is not part of the template
+        const template = matter(await this.vault.read(templateFile)).content;
+        const values: Record<string, string> = {
+            title: String(frontMatter.title ?? file.basename),
+            slug: this.getFrontMatterSlug(frontMatter) || this.slugify(file.basename),
+            date: this.formatTemplateDate(frontMatter.date),
+            tags: this.toStringList(frontMatter.tags).join(', '),
+            summary: this.getSummary(frontMatter, body),
+            body: body.replace(/^\n+/, '').replace(/\s+$/, ''),
+        };
+        const placeholderRegex = new RegExp(`\\{\\{\\s*(${TEMPLATE_PLACEHOLDERS.join('|')})\\s*\\}\\}`, 'g');
+        return this.ensureTrailingNewline(template.replace(/^\n+/, '').replace(placeholderRegex, (match, name: string) => values[name]));
+    }
+
+    // A front matter date as YYYY-MM-DD for templates ('' if there is none)
+    private formatTemplateDate(date: unknown): string {
+        if (date instanceof Date) {
+            return date.toISOString().slice(0, 10);
+        }
+        return typeof date === 'string' ? date.slice(0, 10) : '';
+    }
+
+    // The summary of a note: its 'summary' or 'description' front matter, else the first paragraph of the body
+    private getSummary(frontMatter: Record<string, any>, body: string): string {
+        for (const key of ['summary', 'description']) {
+            if (typeof frontMatter[key] === 'string' && frontMatter[key].trim()) {
+                return frontMatter[key].trim();
+            }
+        }
+        const paragraph = body.split(/\n[ \t]*\n/).map(block => block.trim())
+            .find(block => block && !/^(#|```|~~~|\{\{[<%]|<|>|\||!\[)/.test(block));
+        return paragraph || '';
+    }
+
+    // Adds a generated 'lastmod' right after 'date', unless the note has one, the source is 'none' or the key is filtered out
+    private addLastmod(file: VaultFile, frontMatter: Record<string, any>, profile: HugoProfile, lastmod: Date): Record<string, any> {
+        if (profile.lastmodSource === 'none' || 'lastmod' in frontMatter || !this.isFrontMatterKeyAllowed('lastmod', profile)) {
+            return frontMatter;
+        }
+        this.debug(`Setting lastmod of ${file.name} from ${profile.lastmodSource === 'modified' ? 'file modification time' : 'last content change'}`);
+        const result: Record<string, any> = {};
+        for (const [key, value] of Object.entries(frontMatter)) {
+            result[key] = value;
+            if (key === 'date') {
+                result.lastmod = this.formatFrontMatterDate(lastmod, profile);
+            }
+        }
+        if (!('lastmod' in result)) {
+            result.lastmod = this.formatFrontMatterDate(lastmod, profile);
+        }
+        return result;
+    }
+
+    // A generated date as written to front matter: a Date (YAML/TOML timestamp in UTC), or a string with the
+    // profile's time zone offset, e.g. '2024-03-01T10:00:00+01:00'
+    private formatFrontMatterDate(date: Date, profile: HugoProfile): Date | string {
+        const timezone = profile.timezone.trim();
+        if (!timezone) {
+            return date;
+        }
+        let parts: Intl.DateTimeFormatPart[];
+        try {
+            parts = new Intl.DateTimeFormat('en-US', {
+                timeZone: timezone === 'local' ? undefined : timezone,
+                hourCycle: 'h23',
+                year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+            }).formatToParts(date);
+        } catch {
+            throw new Error(`Unknown time zone '${timezone}' in profile '${profile.name}'`);
+        }
+        const part = (type: string) => Number(parts.find(candidate => candidate.type === type)?.value);
+        const pad = (value: number) => String(Math.abs(value)).padStart(2, '0');
+        const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+        const offset = Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+        const zone = offset === 0 ? 'Z' : `${offset < 0 ? '-' : '+'}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`;
+        return `${part('year')}-${pad(part('month'))}-${pad(part('day'))}T${pad(part('hour'))}:${pad(part('minute'))}:${pad(part('second'))}${zone}`;
+    }
+
+    // The text written into the note when pinning a generated date
+    private toPinnedValue(date: Date | string): string {
+        return date instanceof Date ? date.toISOString() : date;
+    }
+
+    // Determines the output mode for a note, honoring the per-note front matter override
+    private getOutputMode(file: VaultFile, frontMatter: any): OutputMode {
+        const override = frontMatter[OUTPUT_MODE_KEY];
+        if (override === 'flat' || override === 'bundle') {
+            this.debug(`Using output mode '${override}' from front matter of ${file.name}`);
+            return override;
+        }
+        if (override !== undefined) {
+            this.debug(`Ignoring invalid '${OUTPUT_MODE_KEY}' value in ${file.name}: ${JSON.stringify(override)}`);
+        }
+        return this.settings.outputMode;
+    }
+
+    // Name of the exported file (flat) or bundle directory (bundle), without extension; a 'slug' front matter overrides the file name
+    private getOutputName(file: VaultFile, frontMatter: any, mode: OutputMode): string {
+        const slug = this.getFrontMatterSlug(frontMatter);
+        if (mode === 'bundle') {
+            return this.slugify(slug || file.basename) || this.sanitizeFilename(file.basename);
+        }
+        return this.sanitizeFilename(slug || file.basename);
+    }
+
+    // The content directory of a profile, which sections are relative to: the contentDir of the site's Hugo config,
+    // else the folder holding postsDirectory
+    getContentDirectory(profile: HugoProfile): string {
+        return this.getSiteConfig(profile)?.contentDir || path.dirname(this.resolvePath(profile.postsDirectory));
+    }
+
+    // The directory notes without a section route go to: postsDirectory, moved into the content directory of the
+    // site's Hugo config (keeping its name) if it lies outside it
+    getPostsDirectory(profile: HugoProfile): string {
+        const postsDir = this.resolvePath(profile.postsDirectory);
+        const config = this.getSiteConfig(profile);
+        return !config || this.isInDirectory(postsDir, config.contentDir) ? postsDir : path.join(config.contentDir, path.basename(postsDir));
+    }
+
+    // The shared images directory: staticImagesDirectory, moved into the first static directory of the site's Hugo
+    // config (keeping its name) if it lies outside all of them
+    getImagesDirectory(profile: HugoProfile): string {
+        const imagesDir = this.resolvePath(profile.staticImagesDirectory);
+        const config = this.getSiteConfig(profile);
+        if (!config || config.staticDirs.some(staticDir => this.isInDirectory(imagesDir, staticDir))) {
+            return imagesDir;
+        }
+        return path.join(config.staticDirs[0], path.basename(imagesDir));
+    }
+
+    // Whether a path is a directory or lies below it
+    private isInDirectory(filePath: string, directory: string): boolean {
+        const relative = path.relative(directory, filePath);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    // Routes a note to its section: 'section' front matter first, then the most specific matching sectionRoutes
+    // folder (mirroring nested folders for '/**' routes), otherwise postsDirectory and linkPrefix
+    private getNoteRoute(file: VaultFile, frontMatter: any, profile: HugoProfile): NoteRoute {
+        const toSection = (value: string) => value.split('/').map(segment => this.slugify(segment) || this.urlize(segment)).filter(segment => segment);
+        const sectionRoute = (section: string[], subfolders: string[] = []): NoteRoute => ({
+            directory: path.join(this.getContentDirectory(profile), ...section, ...subfolders),
+            urlPrefix: `/${[...section, ...subfolders].map(segment => `${segment}/`).join('')}`,
+        });
+
+        const override = frontMatter[SECTION_KEY];
+        if (typeof override === 'string' && toSection(override).length > 0) {
+            this.debug(`Using section '${override}' from front matter of ${file.name}`);
+            return sectionRoute(toSection(override));
+        }
+
+        let best: { folder: string, section: string[], mirror: boolean } | null = null;
+        for (const [pattern, section] of Object.entries(profile.sectionRoutes)) {
+            const mirror = /(^|\/)\*\*$/.test(pattern.trim());
+            const folder = pattern.trim().replace(/(^|\/)\*\*$/, '').replace(/^\/+|\/+$/g, '');
+            if (this.isInFolder(file, folder) && (!best || folder.length > best.folder.length)) {
+                best = { folder, section: toSection(section), mirror };
+            }
+        }
+        if (!best) {
+            return { directory: this.getPostsDirectory(profile), urlPrefix: profile.linkPrefix };
+        }
+        // Folders between the routed folder and the note, e.g. 'Notes/Recipes/**' puts 'Notes/Recipes/Italian/Pasta' into recipes/italian/
+        const noteFolder = path.posix.dirname(file.path);
+        const subfolders = best.mirror && noteFolder !== '.' ? toSection(noteFolder.slice(best.folder.length)) : [];
+        return sectionRoute(best.section, subfolders);
+    }
+
+    // Returns the non-empty 'slug' front matter value, if any
+    private getFrontMatterSlug(frontMatter: any): string | undefined {
+        return typeof frontMatter.slug === 'string' && frontMatter.slug.trim() ? frontMatter.slug.trim() : undefined;
+    }
+
+    // Computes the destination paths for a note based on its output mode. Translations are placed and named like
+    // their primary note, so bundles (and the attachments in them) are shared in 'filename' mode.
+    private resolveExportTarget(file: VaultFile, frontMatter: any, profile: HugoProfile): ExportTarget {
+        const mode = this.getOutputMode(file, frontMatter);
+        const primary = this.getPrimaryTranslation(file, profile);
+        const primaryFrontMatter = primary.path === file.path ? frontMatter : this.vault.getFrontMatter(primary) || {};
+        const language = profile.languageMode === 'none' ? '' : this.getNoteLanguage(frontMatter, profile);
+        const routeDir = this.getNoteRoute(primary, primaryFrontMatter, profile).directory;
+        const outputName = this.getOutputName(primary, primaryFrontMatter, mode);
+        const sectionDir = this.getLanguageDirectory(routeDir, language, profile);
+        const suffix = profile.languageMode === 'filename' && language !== this.getNoteLanguage({}, profile) ? `.${language}` : '';
+
+        if (mode === 'bundle') {
+            // Leaf bundle: <section>/<slug>/index.md with attachments alongside; translations in per-language
+            // directories copy theirs into the primary note's bundle only (Hugo shares bundle files between translations)
+            const bundleDir = path.join(sectionDir, outputName);
+            const primaryLanguage = language && this.getNoteLanguage(primaryFrontMatter, profile);
+            return {
+                mode,
+                contentPath: path.join(bundleDir, `index${suffix}.md`),
+                attachmentsDirectory: path.join(this.getLanguageDirectory(routeDir, primaryLanguage, profile), outputName),
+                attachmentsUrlPrefix: '',
+                language,
+            };
+        }
+
+        return {
+            mode,
+            contentPath: path.join(sectionDir, `${outputName}${suffix}.md`),
+            attachmentsDirectory: this.getImagesDirectory(profile),
+            // Images outside the static directories can't be served from where they are; '/images/' is the usual place
+            attachmentsUrlPrefix: this.getStaticUrl(this.getImagesDirectory(profile), profile) || this.withBasePath('/images/', profile),
+            language,
+        };
+    }
+
+    // Language code of a note: its LANGUAGE_KEY front matter, else the profile's default language
+    private getNoteLanguage(frontMatter: any, profile: HugoProfile): string {
+        const language = frontMatter[LANGUAGE_KEY];
+        return (typeof language === 'string' && language.trim() ? language : this.getDefaultLanguage(profile)).trim().toLowerCase();
+    }
+
+    // The default language: the site's defaultContentLanguage, else the profile's
+    private getDefaultLanguage(profile: HugoProfile): string {
+        return this.getSiteConfig(profile)?.defaultLanguage || profile.defaultLanguage;
+    }
+
+    // Moves a directory below the content directory into the language's own content directory ('directory' mode)
+    private getLanguageDirectory(directory: string, language: string, profile: HugoProfile): string {
+        if (profile.languageMode !== 'directory' || !language) {
+            return directory;
+        }
+        const contentDir = this.getContentDirectory(profile);
+        // The site's config may give a language its own contentDir
+        const languageDir = this.getSiteConfig(profile)?.languageContentDirs[language] || path.join(contentDir, language);
+        return path.join(languageDir, path.relative(contentDir, directory));
+    }
+
+    // Notes sharing the note's translationKey, the note included, by vault path (just the note when it has none)
+    private getTranslations(file: VaultFile, profile: HugoProfile): VaultFile[] {
+        const key = profile.languageMode === 'none' ? undefined : this.vault.getFrontMatter(file)?.[TRANSLATION_KEY];
+        if ((typeof key !== 'string' && typeof key !== 'number') || String(key).trim() === '') {
+            return [file];
+        }
+        return this.vault.getMarkdownFiles()
+            .filter(candidate => String(this.vault.getFrontMatter(candidate)?.[TRANSLATION_KEY] ?? '').trim() === String(key).trim())
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    // The translation that decides where a group of translations goes: the one in the default language, else the first
+    private getPrimaryTranslation(file: VaultFile, profile: HugoProfile): VaultFile {
+        const translations = this.getTranslations(file, profile);
+        const defaultLanguage = this.getNoteLanguage({}, profile);
+        return translations.find(candidate => this.getNoteLanguage(this.vault.getFrontMatter(candidate) || {}, profile) === defaultLanguage)
+            || translations[0] || file;
+    }
+
+    // The version of a note in a language, if there is one
+    private getTranslation(file: VaultFile, language: string, profile: HugoProfile): VaultFile | null {
+        return this.getTranslations(file, profile)
+            .find(candidate => this.getNoteLanguage(this.vault.getFrontMatter(candidate) || {}, profile) === language) || null;
+    }
+
+    // Generates the Hugo front matter: renames, tags, draft/aliases conversion, defaults and key filtering
+    private generateFrontMatter(
+        file: VaultFile, existingData: any, profile: HugoProfile, fallbackDate: Date | string, context: ExportContext, archetype: Record<string, any> = {},
+    ): Record<string, any> {
+        this.debug(`Generating front matter for: ${file.name}`);
+        // Work on a copy so the parsed note data stays untouched
+        const data: Record<string, any> = { ...existingData };
+        // Plugin control keys are not meant for Hugo
+        const urlPrefix = this.getNoteRoute(file, existingData, profile).urlPrefix;
+        delete data[OUTPUT_MODE_KEY];
+        delete data[PROFILE_KEY];
+        delete data[SECTION_KEY];
+        delete data[TEMPLATE_KEY];
+        if (profile.languageMode !== 'none') {
+            // Hugo takes the language from the file name or content directory
+            delete data[LANGUAGE_KEY];
+        }
+
+        // Rename keys (e.g. created -> date); a value already present under the new name wins
+        for (const [from, to] of Object.entries(profile.frontMatterKeyMap)) {
+            if (from in data && from !== to) {
+                if (!(to in data)) {
+                    data[to] = data[from];
+                }
+                delete data[from];
+            }
+        }
+
+        this.applyTags(file, data, profile, context.redactedTags);
+
+        // Hugo has no notion of 'publish'; express it as 'draft' unless the note sets draft itself
+        const publishKey = profile.publishFlagKey;
+        if (profile.draftFromPublish && publishKey in data) {
+            if (!('draft' in data)) {
+                data.draft = data[publishKey] === false || data[publishKey] === 'false';
+            }
+            delete data[publishKey];
+        }
+
+        // Obsidian aliases are alternative names, Hugo aliases are URLs that redirect to the page
+        if (profile.aliasesToUrls) {
+            const aliases = parseFrontMatterAliases(data);
+            delete data.alias;
+            if (aliases && aliases.length > 0) {
+                data.aliases = aliases.map(alias => (alias.startsWith('/') ? alias : `${urlPrefix}${this.slugify(alias) || this.urlize(alias)}/`));
+            }
+        }
+
+        // Ensure title exists, default to filename without extension
+        const title = data.title || path.parse(file.name).name;
+        // Ensure date exists, default to the profile's date source
+        const date = data.date || fallbackDate;
+        // Timestamps from the note are shown in the profile's time zone too; date-only values are left alone
+        if (profile.timezone.trim()) {
+            for (const key of HUGO_DATE_KEYS) {
+                if (data[key] instanceof Date && !this.isDateOnly(data[key])) {
+                    data[key] = this.formatFrontMatterDate(data[key], profile);
+                }
+            }
+        }
+
+        // Merge default/generated fields with existing front matter
+        const frontMatter: Record<string, any> = {
+            title: title,
+            date: date,
+            ...archetype, // The archetype's defaults (e.g. draft, params) come before the note's own values
+            ...data, // Spread existing data after defaults ensures user values override if needed
+        };
+        // Title and date come from the note, never from the archetype
+        frontMatter.title = title;
+        frontMatter.date = date;
+
+        // Allowlist / denylist
+        const droppedKeys: string[] = [];
+        for (const key of Object.keys(frontMatter)) {
+            if (!this.isFrontMatterKeyAllowed(key, profile)) {
+                this.debug(`Dropping front matter key '${key}' from ${file.name}`);
+                droppedKeys.push(key);
+                delete frontMatter[key];
+            }
+        }
+        if (droppedKeys.length > 0) {
+            context.redactions.unshift(`front matter keys ${droppedKeys.join(', ')}`);
+        }
+        this.debug(`Final front matter for ${file.name}: ${JSON.stringify(frontMatter)}`);
+        return frontMatter;
+    }
+
+    // Whether the profile's allowlist and denylist let a front matter key through
+    private isFrontMatterKeyAllowed(key: string, profile: HugoProfile): boolean {
+        const allowKeys = profile.frontMatterAllowKeys;
+        return (allowKeys.length === 0 || allowKeys.includes(key)) && !profile.frontMatterDropKeys.includes(key);
+    }
+
+    // Whether a parsed front matter date was written without a time ('2024-03-01' parses to midnight UTC)
+    private isDateOnly(date: Date): boolean {
+        return date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0 && date.getUTCMilliseconds() === 0;
+    }
+
+    // Merges front matter and inline tags and splits nested tags according to nestedTagMode
+    private applyTags(file: VaultFile, data: Record<string, any>, profile: HugoProfile, redactedTags: Set<string>) {
+        const rawTags = [...this.toStringList(data.tags), ...this.toStringList(data.tag)];
+        delete data.tag;
+        if (profile.collectInlineTags) {
+            rawTags.push(...this.vault.getTags(file).filter(tag => !redactedTags.has(tag.replace(/^#/, '').toLowerCase())));
+        }
+        // Tags that mark private sections only matter inside the vault
+        const tags = this.unique(rawTags.map(tag => tag.replace(/^#/, '').trim()).filter(tag => tag))
+            .filter(tag => !this.settings.privateSectionTags.some(privateTag => this.hasTag([tag], privateTag)));
+        if (tags.length === 0) {
+            return;
+        }
+
+        if (profile.nestedTagMode === 'full') {
+            data.tags = tags;
+            return;
+        }
+        const categories = this.toStringList(data.categories);
+        const leafTags: string[] = [];
+        for (const tag of tags) {
+            const segments = tag.split('/').filter(segment => segment);
+            leafTags.push(segments[segments.length - 1]);
+            if (profile.nestedTagMode === 'categories' && segments.length > 1) {
+                categories.push(segments.slice(0, -1).join('/'));
+            }
+        }
+        data.tags = this.unique(leafTags);
+        if (categories.length > 0) {
+            data.categories = this.unique(categories);
+        }
+    }
+
+    // Normalizes a front matter list value (array, or comma/space separated string) into strings
+    private toStringList(value: unknown): string[] {
+        if (Array.isArray(value)) {
+            return value.filter(item => item !== null && item !== undefined).map(item => String(item));
+        }
+        if (typeof value === 'string') {
+            return value.split(/[,\s]+/).filter(item => item);
+        }
+        return [];
+    }
+
+    // Removes duplicates while keeping the first occurrence order
+    unique(values: string[]): string[] {
+        return [...new Set(values)];
+    }
+
+    // Joins front matter and body using the configured front matter format
+    private stringifyNote(body: string, frontMatter: Record<string, any>, profile: HugoProfile): string {
+        switch (profile.frontMatterFormat) {
+            case 'toml':
+                return `+++\n${this.toToml(frontMatter)}+++\n${this.ensureTrailingNewline(body)}`;
+            case 'json':
+                return `${JSON.stringify(frontMatter, null, 2)}\n${this.ensureTrailingNewline(body)}`;
+            default:
+                return matter.stringify(body, frontMatter);
+        }
+    }
+
+    // Makes sure the content ends with a newline (matter.stringify does the same for YAML)
+    private ensureTrailingNewline(content: string): string {
+        return content.endsWith('\n') ? content : content + '\n';
+    }
+
+    // Serializes front matter as TOML: plain keys first, then [tables] and [[arrays of tables]]
+    private toToml(data: Record<string, any>, parents: string[] = []): string {
+        const lines: string[] = [];
+        const sections: string[] = [];
+        for (const [key, value] of Object.entries(data)) {
+            if (value === null || value === undefined) {
+                continue; // TOML has no null
+            }
+            const sectionPath = [...parents, key].map(part => this.tomlKey(part)).join('.');
+            if (this.isPlainObject(value)) {
+                sections.push(`\n[${sectionPath}]\n${this.toToml(value, [...parents, key])}`);
+            } else if (Array.isArray(value) && value.length > 0 && value.every(item => this.isPlainObject(item))) {
+                for (const item of value) {
+                    sections.push(`\n[[${sectionPath}]]\n${this.toToml(item, [...parents, key])}`);
+                }
+            } else {
+                lines.push(`${this.tomlKey(key)} = ${this.tomlValue(value)}\n`);
+            }
+        }
+        return lines.join('') + sections.join('');
+    }
+
+    // Quotes a TOML key unless it is a valid bare key
+    private tomlKey(key: string): string {
+        return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+    }
+
+    // Serializes a single TOML value (JSON string escapes are valid TOML basic strings)
+    private tomlValue(value: any): string {
+        if (value instanceof Date) {
+            return value.toISOString();
+        }
+        if (typeof value === 'number') {
+            if (Number.isNaN(value)) {
+                return 'nan';
+            }
+            return Number.isFinite(value) ? String(value) : (value > 0 ? 'inf' : '-inf');
+        }
+        if (typeof value === 'boolean') {
+            return String(value);
+        }
+        if (Array.isArray(value)) {
+            return `[${value.filter(item => item !== null && item !== undefined).map(item => this.tomlValue(item)).join(', ')}]`;
+        }
+        if (this.isPlainObject(value)) {
+            const entries = Object.entries(value).filter(([, item]) => item !== null && item !== undefined);
+            return `{ ${entries.map(([key, item]) => `${this.tomlKey(key)} = ${this.tomlValue(item)}`).join(', ')} }`;
+        }
+        return JSON.stringify(String(value));
+    }
+
+    // True for object literals (not arrays, dates or null)
+    private isPlainObject(value: unknown): value is Record<string, any> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+    }
+
+    // Processes the body content: converts callouts, masks code blocks, then handles images and wikilinks
+    private async processContent(file: VaultFile, content: string, context: ExportContext): Promise<string> {
+        this.debug(`Processing content body for: ${file.name}`);
+
+        const fencedCodeBlocks: string[] = [];
+        const inlineCodeBlocks: string[] = [];
+        const mathBlocks: string[] = [];
+        const embeddedNotes: string[] = [];
+        let processedContent = content;
+        const placeholderPrefix = `%%HUGOPLUGIN_CODEBLOCK%%`; // Use a more unique prefix
+        const fencedCodeRegex = /^((?:[ \t]*>)*)[ \t]{0,3}(`{3,}|~{3,}) *(.*?)\n([\s\S]*?)\n^\1[ \t]{0,3}\2 *$/gm;
+
+        // --- STEP 0: Strip Obsidian Comments ---
+        // %%private notes%% never reach the site. Code is matched in the same pass so '%%' inside code survives,
+        // while code inside a comment goes with it (as in Obsidian's reading view).
+        if (this.settings.stripComments) {
+            const commentOrCodeRegex = new RegExp(`${fencedCodeRegex.source}|\`[^\`\n]+?\`|%%[\\s\\S]*?%%`, 'gm');
+            processedContent = processedContent.replace(commentOrCodeRegex, (match) => match.startsWith('%%') ? '' : match);
+        }
+
+        // --- STEP 0a: Redact Private Content ---
+        // Blocks between the private markers and sections under headings tagged #private
+        processedContent = this.redactPrivateContent(file, processedContent, context);
+
+        // --- STEP 0b: Convert Callouts ---
+        // Runs before masking so callout bodies are unquoted; code fences are skipped line by line
+        if (this.settings.calloutStyle !== 'none') {
+            processedContent = this.convertCallouts(processedContent);
+        }
+
+        // --- STEP 1: Mask Fenced Code Blocks ---
+        // The optional '>' prefix also catches fences inside blockquotes (and blockquote-style callouts)
+        processedContent = processedContent.replace(fencedCodeRegex, (match, quotePrefix: string, _fence: string, info: string, code: string) => {
+            const placeholder = `${placeholderPrefix}_FENCED_${fencedCodeBlocks.length}%%`;
+            // Mermaid diagrams (outside blockquotes) become a shortcode; the placeholder keeps the diagram untouched
+            if (this.settings.mermaidAsShortcode && !quotePrefix && info.trim().toLowerCase() === 'mermaid') {
+                fencedCodeBlocks.push(`{{< mermaid >}}\n${code}\n{{< /mermaid >}}`);
+                return placeholder;
+            }
+            fencedCodeBlocks.push(match);
+            this.debug(`Masking fenced code block with placeholder: ${placeholder}`);
+            return placeholder;
+        });
+
+        // --- STEP 2: Mask Inline Code Blocks ---
+        const inlineCodeRegex = /`([^`\n]+?)`/g;
+        processedContent = processedContent.replace(inlineCodeRegex, (match) => {
+            if (match.includes(placeholderPrefix)) { // Avoid double-masking if regex catches part of fenced placeholder
+                 return match;
+            }
+            const placeholder = `${placeholderPrefix}_INLINE_${inlineCodeBlocks.length}%%`;
+            inlineCodeBlocks.push(match);
+            this.debug(`Masking inline code block with placeholder: ${placeholder}`);
+            return placeholder;
+        });
+
+        // --- STEP 2a: Mask Math ---
+        // $$block$$ and $inline$ LaTeX is protected from the other steps (Goldmark would mangle its underscores otherwise)
+        if (this.settings.mathStyle !== 'none') {
+            const maskMath = (match: string, isBlock: boolean) => {
+                const placeholder = `${placeholderPrefix}_MATH_${mathBlocks.length}%%`;
+                mathBlocks.push(this.renderMath(match, isBlock));
+                return placeholder;
+            };
+            processedContent = processedContent.replace(/\$\$[\s\S]+?\$\$/g, (match) => maskMath(match, true));
+            // Like Obsidian: no space right inside the dollars, and no digit right after the closing one ($5 and $10)
+            processedContent = processedContent.replace(/(?<![\\$])\$(?=\S)([^$\n]+?)(?<=\S)\$(?![\d$])/g, (match) => maskMath(match, false));
+        }
+
+        this.debug(`Content after masking: ${processedContent.substring(0, 200)}...`);
+
+        // Links may only point at notes Hugo will have; the publish rules need async checks, so run them up front
+        await this.checkLinkedNotesPublished(file, processedContent, context);
+
+        // --- STEP 2b: Transclude Embedded Notes ---
+        // ![[Note]], ![[Note#Heading]] and ![[Note#^block]] are replaced by the (fully processed) embedded content.
+        // The result is masked like code so the remaining steps don't process it twice.
+        const embedPromises: Promise<{ match: string, replacement: string }>[] = [];
+        for (const match of processedContent.matchAll(/!\[\[([^\]\n]+?)\]\]/g)) {
+            const fullMatch = match[0];
+            const [linkTarget, ...aliasParts] = match[1].split('|');
+            const { path: linkpath } = parseLinktext(linkTarget.trim());
+            // Anything with a non-markdown extension is an image or attachment
+            if (/\.\w{2,5}$/.test(linkpath) && !/\.md$/i.test(linkpath)) {
+                continue;
+            }
+            embedPromises.push(
+                this.transcludeNote(file, linkTarget.trim(), aliasParts.length ? `|${aliasParts.join('|')}` : undefined, context)
+                    .then(embedded => {
+                        const placeholder = `${placeholderPrefix}_EMBED_${embeddedNotes.length}%%`;
+                        embeddedNotes.push(embedded);
+                        return { match: fullMatch, replacement: placeholder };
+                    })
+            );
+        }
+        processedContent = this.replaceMatches(processedContent, await Promise.all(embedPromises), 'embed');
+
+        // --- STEP 3: Copy Linked Attachments ---
+        // Links to local files ([[report.pdf]], [Report](report.pdf)) become download links to the copied file.
+        // Runs after note embeds (step 2b, already masked) and before attachment embeds (step 3b), so the download
+        // links step 3b writes for embedded attachments are not processed twice.
+        processedContent = await this.processLinkedAttachments(file, processedContent, context);
+
+        // --- STEP 3b: Process Embedded Images and Attachments on Masked Content ---
+        const imagePromises: Promise<{ match: string, replacement: string }>[] = [];
+        const wikiImageRegex = /!\[\[([^\]\n]+?)\]\]/g; // Non-greedy match inside [[ ]]
+        const markdownImageRegex = /!\[([^\]]*)\]\((<[^>\n]+>|[^)\s]+?)(?:\s+"[^"]+")?\)/g; // Non-greedy path, or <path with spaces>
+
+        // Gather promises for wiki-style images
+        for (const match of processedContent.matchAll(wikiImageRegex)) {
+            const fullMatch = match[0];
+            // ![[image.png|alt text]] or ![[image.png|300]] (Obsidian resize, dropped)
+            const [rawName, ...options] = match[1].split('|');
+            const imageName = rawName.trim();
+            const altOption = options.map(option => option.trim()).find(option => option && !/^\d+(x\d+)?$/.test(option));
+            const label = this.getAttachmentKind(imageName) === 'image' ? 'image' : 'attachment';
+            this.debug(`Found wiki image reference (post-masking): ${fullMatch}`);
+            imagePromises.push(
+                this.handleEmbed(file, imageName, altOption || '', context)
+                    .then(hugoImageMarkdown => ({ match: fullMatch, replacement: hugoImageMarkdown }))
+                    .catch(error => {
+                        this.debug(`Error handling wiki image ${imageName}: ${error.message}`);
+                        context.warnings.push(`Missing ${label} ${fullMatch}: ${error.message}`);
+                        this.addIssue(context, 'error', 'missing-attachment', file, fullMatch, `Missing ${label} ${fullMatch}`);
+                        return { match: fullMatch, replacement: `<!-- ERROR PROCESSING WIKI ${label.toUpperCase()}: ${imageName} -->` };
+                    })
+            );
+        }
+
+        // Gather promises for markdown-style images
+        for (const match of processedContent.matchAll(markdownImageRegex)) {
+            const fullMatch = match[0];
+            const altText = match[1].trim();
+            const imagePath = this.parseMarkdownLinkPath(match[2]);
+             this.debug(`Found markdown image reference (post-masking): ${fullMatch}`);
+            if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
+                this.debug(`Skipping external image: ${imagePath}`);
+                continue;
+            }
+            const label = this.getAttachmentKind(imagePath) === 'image' ? 'image' : 'attachment';
+            imagePromises.push(
+                this.handleEmbed(file, imagePath, altText, context)
+                    .then(hugoImageMarkdown => ({ match: fullMatch, replacement: hugoImageMarkdown }))
+                    .catch(error => {
+                        this.debug(`Error handling markdown image ${imagePath}: ${error.message}`);
+                        context.warnings.push(`Missing ${label} ${fullMatch}: ${error.message}`);
+                        this.addIssue(context, 'error', 'missing-attachment', file, fullMatch, `Missing ${label} ${fullMatch}`);
+                        return { match: fullMatch, replacement: `<!-- ERROR PROCESSING MARKDOWN ${label.toUpperCase()}: ${imagePath} -->` };
+                    })
+            );
+        }
+
+        // Wait for all image processing to complete
+        const imageResults = await Promise.all(imagePromises);
+
+        // Replace image syntax with Hugo links
+        processedContent = this.replaceMatches(processedContent, imageResults, 'image');
+
+        // --- STEP 4: Process Wikilinks on Masked Content ---
+        // Regex explanation:
+        // \[\[         -> Match [[ literally
+        // ([^|\]\n]+) -> Capture group 1: Link target (anything not |, ], or newline)
+        // (\|          -> Optional Capture group 2: Starts with |
+        // [^\]\n]+    -> Display text (anything not ] or newline)
+        // )?           -> Makes group 2 optional
+        // \]\]         -> Match ]] literally
+        const wikilinkRegex = /\[\[([^|\]\n]+?)(\|[^\]\n]+?)?\]\]/g; // Use non-greedy match for target
+        processedContent = processedContent.replace(wikilinkRegex, (match, linkTarget, linkTextWithPipe) =>
+            this.convertWikilink(file, match, linkTarget, linkTextWithPipe, context));
+
+        // --- STEP 4b: Turn Block IDs into Anchors ---
+        // '... ^block-id' at the end of a line becomes an empty element [[Note#^block-id]] links can point at
+        processedContent = processedContent.replace(/(^|[ \t])\^([A-Za-z0-9-]+)[ \t]*$/gm, (_, lead, blockId) =>
+            `${lead}<span id="${blockId}"></span>`);
+
+        // --- STEP 4c: Convert Obsidian-Only Inline Syntax ---
+        if (this.settings.convertHighlights) {
+            processedContent = processedContent.replace(/==(?=\S)([^=\n]+?)(?<=\S)==/g, '<mark>$1</mark>');
+        }
+        if (this.settings.normalizeTaskStates) {
+            processedContent = this.normalizeTaskStates(processedContent);
+        }
+        if (this.settings.convertInlineFootnotes) {
+            processedContent = this.convertInlineFootnotes(processedContent, context);
+        }
+
+        // --- STEP 5: Restore Inline Code Blocks (in reverse order) ---
+        for (let i = inlineCodeBlocks.length - 1; i >= 0; i--) {
+            const placeholder = `${placeholderPrefix}_INLINE_${i}%%`;
+            // Use function replace to avoid issues with special characters ($&) in the code
+             processedContent = processedContent.replace(placeholder, () => inlineCodeBlocks[i]);
+            this.debug(`Restored inline code block for placeholder: ${placeholder}`);
+        }
+
+        // --- STEP 6: Restore Fenced Code Blocks (in reverse order) ---
+        for (let i = fencedCodeBlocks.length - 1; i >= 0; i--) {
+            const placeholder = `${placeholderPrefix}_FENCED_${i}%%`;
+             processedContent = processedContent.replace(placeholder, () => fencedCodeBlocks[i]);
+            this.debug(`Restored fenced code block for placeholder: ${placeholder}`);
+        }
+
+        // --- STEP 6b: Restore Math ---
+        for (let i = mathBlocks.length - 1; i >= 0; i--) {
+            const placeholder = `${placeholderPrefix}_MATH_${i}%%`;
+            processedContent = processedContent.replace(placeholder, () => mathBlocks[i]);
+        }
+
+        // --- STEP 7: Restore Transcluded Notes ---
+        for (let i = embeddedNotes.length - 1; i >= 0; i--) {
+            const placeholder = `${placeholderPrefix}_EMBED_${i}%%`;
+            processedContent = processedContent.replace(placeholder, () => embeddedNotes[i]);
+            this.debug(`Restored embedded note for placeholder: ${placeholder}`);
+        }
+
+        this.debug(`Finished processing content body for: ${file.name}`);
+        return processedContent;
+    }
+
+    // Renders a math span or block in the configured style
+    private renderMath(math: string, isBlock: boolean): string {
+        if (this.settings.mathStyle !== 'shortcode') {
+            return math;
+        }
+        const name = this.settings.mathShortcode;
+        return isBlock ? `{{< ${name} >}}\n${math}\n{{< /${name} >}}` : `{{< ${name} >}}${math}{{< /${name} >}}`;
+    }
+
+    // Maps Obsidian's custom task states onto Hugo's: '[-]' (cancelled) becomes a checked, struck-through item, others are unchecked
+    private normalizeTaskStates(content: string): string {
+        return content.replace(/^((?:[ \t]*>)*[ \t]*(?:[-*+]|\d+[.)])[ \t]+)\[([^\]\sxX])\]([ \t]+)(.*)$/gm,
+            (_, bullet: string, state: string, space: string, text: string) =>
+                state === '-' ? `${bullet}[x]${space}~~${text.trim()}~~` : `${bullet}[ ]${space}${text}`);
+    }
+
+    // Removes blocks between the private markers (on lines of their own) and sections under headings with a private tag.
+    // Fenced code is left alone; an unclosed block runs to the end of the note.
+    private redactPrivateContent(file: VaultFile, content: string, context: ExportContext): string {
+        const start = this.settings.privateBlockStart.trim();
+        const end = this.settings.privateBlockEnd.trim();
+        const useMarkers = Boolean(start && end);
+        if (!useMarkers && this.settings.privateSectionTags.length === 0) {
+            return content;
+        }
+        const kept: string[] = [];
+        const removed: string[] = [];
+        let openFence: string | null = null;
+        let inBlock = false;
+        // Level of the private heading whose section is being removed (0 = none)
+        let sectionLevel = 0;
+        let blockCount = 0;
+        let sectionCount = 0;
+        for (const line of content.split('\n')) {
+            const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+            if (openFence || fenceMatch) {
+                if (!openFence) {
+                    openFence = (fenceMatch as RegExpMatchArray)[1];
+                } else if (fenceMatch && fenceMatch[1][0] === openFence[0] && fenceMatch[1].length >= openFence.length) {
+                    openFence = null;
+                }
+                (inBlock || sectionLevel ? removed : kept).push(line);
+                continue;
+            }
+            if (inBlock) {
+                removed.push(line);
+                inBlock = line.trim() !== end;
+                continue;
+            }
+            if (useMarkers && line.trim() === start) {
+                inBlock = true;
+                blockCount++;
+                removed.push(line);
+                continue;
+            }
+            const heading = line.match(/^ {0,3}(#{1,6})[ \t]+(.*)$/);
+            if (heading) {
+                if (sectionLevel && heading[1].length <= sectionLevel) {
+                    sectionLevel = 0;
+                }
+                const headingTags = [...heading[2].matchAll(INLINE_TAG_REGEX)].map(match => match[1]);
+                if (!sectionLevel && this.settings.privateSectionTags.some(tag => this.hasTag(headingTags, tag))) {
+                    sectionLevel = heading[1].length;
+                    sectionCount++;
+                }
+            }
+            (sectionLevel ? removed : kept).push(line);
+        }
+        if (removed.length === 0) {
+            return content;
+        }
+        if (inBlock) {
+            context.warnings.push(`Private block in ${file.path} is not closed with '${end}'; everything after it was left out`);
+        }
+        if (blockCount > 0) {
+            context.redactions.push(`${blockCount} private block(s)${context.embedStack.length > 1 ? ` in ${file.path}` : ''}`);
+        }
+        if (sectionCount > 0) {
+            context.redactions.push(`${sectionCount} private section(s)${context.embedStack.length > 1 ? ` in ${file.path}` : ''}`);
+        }
+        // Inline tags of the exported note that only occur in removed lines must not show up in its tags either
+        if (context.embedStack.length === 1) {
+            const tagsIn = (lines: string[]) => new Set([...lines.join('\n').matchAll(INLINE_TAG_REGEX)].map(match => match[1].toLowerCase()));
+            const keptTags = tagsIn(kept);
+            for (const tag of tagsIn(removed)) {
+                if (!keptTags.has(tag)) {
+                    context.redactedTags.add(tag);
+                }
+            }
+        }
+        return kept.join('\n');
+    }
+
+    // Turns ^[inline footnotes] (not supported by Goldmark) into [^label] references with definitions at the end
+    private convertInlineFootnotes(content: string, context: ExportContext): string {
+        const definitions: string[] = [];
+        const converted = content.replace(/\^\[([^\]\n]+)\]/g, (_, text: string) => {
+            const label = `inline-${++context.inlineFootnoteCount}`;
+            definitions.push(`[^${label}]: ${text.trim()}`);
+            return `[^${label}]`;
+        });
+        return definitions.length > 0 ? `${converted.replace(/\s*$/, '')}\n\n${definitions.join('\n')}\n` : converted;
+    }
+
+    // Returns the processed content of an embedded note (or one of its sections/blocks), or a link if it can't be inlined
+    private async transcludeNote(file: VaultFile, linkTarget: string, linkTextWithPipe: string | undefined, context: ExportContext): Promise<string> {
+        const { path: linkpath, subpath } = parseLinktext(linkTarget);
+        const embedded = linkpath ? this.resolveLinkTarget(linkpath, file) : file;
+        const fallback = () => this.convertWikilink(file, `[[${linkTarget}${linkTextWithPipe || ''}]]`, linkTarget, linkTextWithPipe, context);
+
+        if (!embedded || embedded.extension !== 'md') {
+            this.debug(`Embedded note not found: ${linkTarget} (in ${file.path})`);
+            return fallback();
+        }
+        const confidentialTag = this.getConfidentialTag(embedded);
+        if (confidentialTag) {
+            context.redactions.push(`embed of confidential note '${embedded.path}'`);
+            this.addIssue(context, 'warning', 'broken-embed', file, `![[${linkTarget}`, `Embedded note '${embedded.path}' is tagged #${confidentialTag} and is left out`);
+            // Not even a link: its title could give it away
+            return '';
+        }
+        const embedKey = embedded.path + subpath;
+        if (context.embedStack.includes(embedKey)) {
+            context.warnings.push(`Embed cycle detected: ${[...context.embedStack, embedKey].join(' -> ')}`);
+            this.addIssue(context, 'warning', 'broken-embed', file, `![[${linkTarget}`, `Embed cycle: ${[...context.embedStack, embedKey].join(' -> ')}`);
+            return fallback();
+        }
+        if (context.embedStack.length > this.settings.maxEmbedDepth) {
+            context.warnings.push(`Embed depth limit (${this.settings.maxEmbedDepth}) reached at ![[${linkTarget}]] in ${file.path}`);
+            this.addIssue(context, 'warning', 'broken-embed', file, `![[${linkTarget}`, `Embed depth limit (${this.settings.maxEmbedDepth}) reached at ![[${linkTarget}]]`);
+            return fallback();
+        }
+
+        const fullContent = await this.vault.read(embedded);
+        let section: string;
+        if (subpath) {
+            const resolved = this.vault.resolveSubpath(embedded, subpath);
+            if (!resolved) {
+                context.warnings.push(`Embedded section not found: ![[${linkTarget}]] in ${file.path}`);
+                this.addIssue(context, 'error', 'broken-embed', file, `![[${linkTarget}`, `Embedded section not found: ![[${linkTarget}]]`);
+                return fallback();
+            }
+            section = fullContent.substring(resolved.start, resolved.end === null ? undefined : resolved.end);
+        } else {
+            section = matter(fullContent).content;
+        }
+
+        this.debug(`Transcluding ${embedKey} into ${file.path}`);
+        context.embedStack.push(embedKey);
+        try {
+            return (await this.processContent(embedded, section, context)).trim();
+        } finally {
+            context.embedStack.pop();
+        }
+    }
+
+    // Converts Obsidian callouts into the configured Hugo output, recursing into callout bodies for nested callouts
+    private convertCallouts(content: string): string {
+        const lines = content.split('\n');
+        const output: string[] = [];
+        let openFence: string | null = null;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            // Never look for callouts inside fenced code
+            const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+            if (openFence) {
+                if (fenceMatch && fenceMatch[1][0] === openFence[0] && fenceMatch[1].length >= openFence.length) {
+                    openFence = null;
+                }
+                output.push(line);
+                continue;
+            }
+            if (fenceMatch) {
+                openFence = fenceMatch[1];
+                output.push(line);
+                continue;
+            }
+
+            const header = line.match(CALLOUT_HEADER_REGEX);
+            if (!header) {
+                output.push(line);
+                continue;
+            }
+
+            // The callout continues for as long as lines stay quoted; strip one level of '>'
+            const bodyLines: string[] = [];
+            while (i + 1 < lines.length && /^ {0,3}>/.test(lines[i + 1])) {
+                i++;
+                bodyLines.push(lines[i].replace(/^ {0,3}> ?/, ''));
+            }
+            const [, type, fold, title] = header;
+            this.debug(`Converting callout [!${type}]${fold} '${title}' (${bodyLines.length} body lines)`);
+            output.push(this.renderCallout(type.toLowerCase(), fold, title.trim(), this.convertCallouts(bodyLines.join('\n'))));
+        }
+        return output.join('\n');
+    }
+
+    // Renders a single (already body-converted) callout according to the callout settings
+    private renderCallout(type: string, fold: string, rawTitle: string, body: string): string {
+        const title = rawTitle || type.charAt(0).toUpperCase() + type.slice(1);
+
+        if (fold && this.settings.foldableCalloutsAsDetails) {
+            // '+' means expanded by default
+            return [
+                `<details class="callout callout-${type}"${fold === '+' ? ' open' : ''}>`,
+                `<summary>${title}</summary>`,
+                '',
+                body,
+                '',
+                '</details>',
+            ].join('\n');
+        }
+
+        if (this.settings.calloutStyle === 'shortcode') {
+            const shortcode = this.settings.calloutTypeShortcodes[type] || this.settings.calloutShortcode;
+            const escapedTitle = title.replace(/"/g, '&quot;');
+            return `{{< ${shortcode} type="${type}" title="${escapedTitle}" >}}\n${body}\n{{< /${shortcode} >}}`;
+        }
+
+        // Blockquote with a Goldmark block attribute (needs markup.goldmark.parser.attribute.block = true)
+        const quotedBody = body.split('\n').map(line => (line ? `> ${line}` : '>'));
+        return [`> **${title}**`, '>', ...quotedBody, `{.callout .callout-${type}}`].join('\n');
+    }
+
+    // Converts a single [[wikilink]] into a Hugo markdown link, resolving the target through the vault
+    private convertWikilink(file: VaultFile, match: string, linkTarget: string, linkTextWithPipe: string | undefined, context: ExportContext): string {
+        const target = linkTarget.trim();
+        // Extract text after pipe if it exists
+        const alias = linkTextWithPipe ? linkTextWithPipe.slice(1).trim() : '';
+
+        // Skip external URLs and absolute paths
+        if (target.startsWith('http:') || target.startsWith('https://') || target.startsWith('/')) {
+            this.debug(`Skipping wikilink processing for URL/absolute link: ${match}`);
+            return match;
+        }
+
+        const { path: linkpath, subpath } = parseLinktext(target);
+        const anchor = this.subpathToAnchor(subpath);
+        const text = alias || this.getWikilinkDisplayText(linkpath, subpath);
+
+        // [[#Heading]] points into the current note
+        if (!linkpath) {
+            return anchor ? `[${text}](#${anchor})` : text;
+        }
+
+        const destination = this.resolveNoteLink(linkpath, file, context);
+        if (destination && destination.extension !== 'md') {
+            // Attachments are not notes; leave them for the attachment handling
+            this.debug(`Skipping wikilink to non-markdown file: ${match}`);
+            return match;
+        }
+        if (!destination && /\.\w{2,5}$/.test(linkpath) && !/\.md$/i.test(linkpath)) {
+            this.debug(`Skipping wikilink processing for potential file link: ${match}`);
+            this.addIssue(context, 'error', 'missing-attachment', file, match, `Missing attachment ${match}`);
+            return match;
+        }
+
+        const confidentialTag = destination && this.getConfidentialTag(destination);
+        if (destination && confidentialTag) {
+            context.redactions.push(`link to confidential note '${destination.path}'`);
+            this.addIssue(context, 'warning', 'unpublished-note', file, match, `Link ${match} points to '${destination.path}', which is tagged #${confidentialTag} and is left out`);
+            // Not even its text: the title (or the link's alias) could give the note away
+            return '';
+        }
+        if (!destination || !this.isPublished(destination, context.profile)) {
+            const reason = destination ? `links to unpublished note '${destination.path}'` : `target not found`;
+            if (destination) {
+                this.addIssue(context, 'warning', 'unpublished-note', file, match, `Link ${match} points to unpublished note '${destination.path}'`);
+            } else {
+                this.addIssue(context, 'error', 'missing-note', file, match, `Link ${match} points to a note that doesn't exist`);
+            }
+            return this.handleUnresolvedLink(file, match, linkpath, text, anchor, reason, context);
+        }
+        // A page outside the publish set is never exported, so the link would be dead (and a relref to it breaks the build)
+        if (context.publishedNotes.get(destination.path) === false) {
+            this.addIssue(context, 'warning', 'unpublished-note', file, match, `Link ${match} points to '${destination.path}', which is not in the publish set of '${context.profile.name}'`);
+            // A relref profile has no URLs to guess, so its links become plain text even with the 'keep' policy
+            if (context.profile.linkStyle === 'relref' && this.settings.unresolvedLinkPolicy === 'keep') {
+                this.debug(`Link ${match} in ${file.path} points outside the publish set, writing its text only`);
+                return text;
+            }
+            return this.handleUnresolvedLink(file, match, linkpath, text, anchor, `'${destination.path}' is not in the publish set`, context);
+        }
+        context.links.push({ file: file.path, match, target: destination.path });
+
+        if (context.profile.linkStyle === 'relref') {
+            const relref = `${this.getRelrefPath(destination, context.profile)}${anchor ? `#${anchor}` : ''}`;
+            return `[${text}]({{< relref ${JSON.stringify(relref)} >}})`;
+        }
+        const url = this.getNoteUrl(destination, context.profile) + (anchor ? `#${anchor}` : '');
+        const hugoLink = `[${text}](${url})`;
+        this.debug(`Processed wikilink (post-masking): ${match} -> ${hugoLink}`);
+        return hugoLink;
+    }
+
+    // Finds the note a wikilink points to, preferring its version in the language of the exported note
+    private resolveNoteLink(linkpath: string, file: VaultFile, context: ExportContext): VaultFile | null {
+        const destination = this.resolveLinkTarget(linkpath, file);
+        if (destination && destination.extension === 'md' && context.target.language) {
+            return this.getTranslation(destination, context.target.language, context.profile) || destination;
+        }
+        return destination;
+    }
+
+    // Records for every note the content links to or embeds whether the publish rules select it (see publishedNotes)
+    private async checkLinkedNotesPublished(file: VaultFile, content: string, context: ExportContext) {
+        for (const [, linkTarget] of content.matchAll(/\[\[([^|\]\n]+?)(?:\|[^\]\n]+?)?\]\]/g)) {
+            const { path: linkpath } = parseLinktext(linkTarget.trim());
+            const destination = linkpath ? this.resolveNoteLink(linkpath, file, context) : null;
+            if (destination && destination.extension === 'md' && !context.publishedNotes.has(destination.path)) {
+                // Notes exported in the same batch and notes pulled in by following links are published too
+                const published = this.batchNotes.has(destination.path) || await this.matchesPublishRules(destination, context.profile)
+                    || (context.profile.publishFollowLinks && this.getPublishFlag(destination, context.profile) === true);
+                context.publishedNotes.set(destination.path, published);
+            }
+        }
+    }
+
+    // Path of a note's exported file for relref: relative to the (language's) content directory, without a language suffix
+    private getRelrefPath(file: VaultFile, profile: HugoProfile): string {
+        const target = this.resolveExportTarget(file, this.vault.getFrontMatter(file) || {}, profile);
+        const contentDir = this.getLanguageDirectory(this.getContentDirectory(profile), target.language, profile);
+        let relative = path.relative(contentDir, target.contentPath).split(path.sep).join('/');
+        if (profile.languageMode === 'filename' && target.language) {
+            // Hugo looks the path up in the language of the linking page
+            relative = relative.replace(new RegExp(`\\.${target.language.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.md$`), '.md');
+        }
+        return `/${relative}`;
+    }
+
+    // Applies the configured unresolved link policy to a wikilink that can't be linked
+    private handleUnresolvedLink(file: VaultFile, match: string, linkpath: string, text: string, anchor: string, reason: string, context: ExportContext): string {
+        this.debug(`Unresolved wikilink ${match} in ${file.path} (${reason}), policy '${this.settings.unresolvedLinkPolicy}'`);
+        switch (this.settings.unresolvedLinkPolicy) {
+            case 'keep':
+                return `[${text}](${this.withBasePath(`${context.profile.linkPrefix}${this.slugify(linkpath)}/`, context.profile)}${anchor ? `#${anchor}` : ''})`;
+            case 'warn':
+                context.warnings.push(`Unresolved link ${match}: ${reason}`);
+                return text;
+            default:
+                return text;
+        }
+    }
+
+    // Records a problem for validate(); its line is looked up later
+    private addIssue(context: ExportContext, severity: IssueSeverity, kind: IssueKind, file: VaultFile, match: string, message: string) {
+        context.issues.push({ severity, kind, file: file.path, match, line: 0, message });
+    }
+
+    // Finds the note a link path points to, falling back to front matter aliases
+    private resolveLinkTarget(linkpath: string, sourceFile: VaultFile): VaultFile | null {
+        const direct = this.vault.getFirstLinkpathDest(linkpath, sourceFile.path);
+        if (direct) {
+            return direct;
+        }
+        const wanted = linkpath.toLowerCase();
+        for (const candidate of this.vault.getMarkdownFiles()) {
+            const aliases = parseFrontMatterAliases(this.vault.getFrontMatter(candidate)) || [];
+            if (aliases.some(alias => alias.toLowerCase() === wanted)) {
+                this.debug(`Resolved '${linkpath}' via alias to ${candidate.path}`);
+                return candidate;
+            }
+        }
+        return null;
+    }
+
+    // A note counts as published unless its front matter says 'publish: false' or 'draft: true'
+    private isPublished(file: VaultFile, profile: HugoProfile): boolean {
+        if (this.getConfidentialTag(file)) {
+            return false;
+        }
+        const frontMatter = this.vault.getFrontMatter(file);
+        return !frontMatter || (this.getPublishFlag(file, profile) !== false && frontMatter.draft !== true);
+    }
+
+    // Computes the Hugo URL a note will be served at, using the same naming as resolveExportTarget
+    getNoteUrl(file: VaultFile, profile: HugoProfile): string {
+        const frontMatter = this.vault.getFrontMatter(file) || {};
+        if (typeof frontMatter.url === 'string' && frontMatter.url.trim()) {
+            return this.withBasePath(frontMatter.url.trim(), profile);
+        }
+        const mode = this.getOutputMode(file, frontMatter);
+        // Translations are named after their primary note
+        const primary = this.getPrimaryTranslation(file, profile);
+        const primaryFrontMatter = primary.path === file.path ? frontMatter : this.vault.getFrontMatter(primary) || {};
+        // Hugo prefers the 'slug' front matter over the file/bundle name for the last URL segment
+        const segment = this.getFrontMatterSlug(frontMatter) || this.getOutputName(primary, primaryFrontMatter, mode);
+        // Pages in languages other than the default one (or in every language, with defaultContentLanguageInSubdir) are served below '/<lang>'
+        const language = profile.languageMode === 'none' ? '' : this.getNoteLanguage(frontMatter, profile);
+        const inSubdir = language !== this.getNoteLanguage({}, profile) || this.getSiteConfig(profile)?.defaultLanguageInSubdir;
+        const languagePrefix = language && inSubdir ? `/${language}` : '';
+        const urlPrefix = this.getNoteRoute(primary, primaryFrontMatter, profile).urlPrefix;
+        // The site's permalink pattern for the section, if it has one
+        const sections = urlPrefix.split('/').filter(part => part);
+        const permalink = sections.length > 0 ? this.getSiteConfig(profile)?.permalinks[sections[0]] : undefined;
+        const pagePath = permalink
+            ? this.expandPermalink(permalink, file, frontMatter, profile, sections, this.getOutputName(primary, primaryFrontMatter, mode))
+            : `${urlPrefix}${this.urlize(segment)}/`;
+        return this.withBasePath(`${languagePrefix}${pagePath}`, profile);
+    }
+
+    // Fills in a Hugo permalink pattern such as '/:year/:month/:slug/' for a note
+    private expandPermalink(pattern: string, file: VaultFile, frontMatter: any, profile: HugoProfile, sections: string[], filename: string): string {
+        const title = typeof frontMatter.title === 'string' && frontMatter.title.trim() ? frontMatter.title.trim() : file.basename;
+        const slug = this.getFrontMatterSlug(frontMatter);
+        // The date the note is (or will be) exported with, as written in its front matter
+        const dateKey = Object.keys(frontMatter).find(key => key === 'date' || profile.frontMatterKeyMap[key] === 'date');
+        const entry = this.getManifestNotes(profile.name)[file.path];
+        const date = dateKey ? frontMatter[dateKey] : this.formatFrontMatterDate(new Date(entry?.firstExportedAt || entry?.exportedAt || Date.now()), profile);
+        const [, year = '', month = '', day = ''] = (date instanceof Date ? date.toISOString() : String(date)).match(/^(\d{4})-(\d{2})-(\d{2})/) || [];
+        const tokens: Record<string, string> = {
+            year, month, day,
+            monthname: month ? MONTH_NAMES[Number(month) - 1] || '' : '',
+            section: sections[0] || '',
+            sections: sections.join('/'),
+            title: this.urlize(title),
+            slug: this.urlize(slug || title),
+            filename: this.urlize(filename),
+            contentbasename: this.urlize(filename),
+            slugorfilename: this.urlize(slug || filename),
+            slugorcontentbasename: this.urlize(slug || filename),
+        };
+        // Longer token names first, so ':slugorfilename' isn't taken for ':slug'
+        const tokenRegex = new RegExp(`:(${Object.keys(tokens).sort((a, b) => b.length - a.length).join('|')})`, 'g');
+        const expanded = pattern.replace(tokenRegex, (match, name: string) => tokens[name]);
+        const url = expanded.startsWith('/') ? expanded : `/${expanded}`;
+        return url.endsWith('/') || /\.[A-Za-z0-9]+$/.test(url) ? url : `${url}/`;
+    }
+
+    // Converts an Obsidian link subpath ('#Heading', '#Parent#Child', '#^block-id') into an HTML anchor
+    private subpathToAnchor(subpath: string): string {
+        if (!subpath) {
+            return '';
+        }
+        const parts = subpath.split('#').filter(part => part.trim());
+        const last = parts[parts.length - 1] || '';
+        if (last.startsWith('^')) {
+            return last.slice(1); // Block IDs are emitted as <span id="..."> by processContent
+        }
+        return this.anchorize(last);
+    }
+
+    // Default display text for a wikilink without an alias, mirroring Obsidian ('Note > Heading')
+    private getWikilinkDisplayText(linkpath: string, subpath: string): string {
+        const parts = subpath.split('#').filter(part => part.trim()).map(part => part.replace(/^\^/, ''));
+        return [linkpath, ...parts].filter(part => part).join(' > ');
+    }
+
+    // Replaces each match with its replacement, last occurrence first to avoid index issues
+    private replaceMatches(content: string, results: { match: string, replacement: string }[], kind: string): string {
+        let processedContent = content;
+        results.sort((a, b) => (processedContent.lastIndexOf(b.match) - processedContent.lastIndexOf(a.match)));
+        for (const result of results) {
+            // Check if the match still exists; simple replace might fail with overlapping matches
+            const index = processedContent.lastIndexOf(result.match);
+            if (index !== -1) {
+                 // More robust replacement using index
+                processedContent = processedContent.substring(0, index) + result.replacement + processedContent.substring(index + result.match.length);
+                this.debug(`Replaced ${kind} match ${result.match} with ${result.replacement}`);
+            } else {
+                 this.debug(`Skipped ${kind} replacement for ${result.match} as it was no longer found (index ${index})`);
+            }
+        }
+        return processedContent;
+    }
+
+    // Copies files referenced by links (not embeds) and rewrites the links to point at the copies
+    private async processLinkedAttachments(file: VaultFile, content: string, context: ExportContext): Promise<string> {
+        const attachmentPromises: Promise<{ match: string, replacement: string }>[] = [];
+        // [[report.pdf]], [[report.pdf#page=3]] or [[report.pdf|Report]] (not preceded by '!', markdown notes excluded below)
+        const wikiAttachmentRegex = /(?<!!)\[\[([^|#\]\n]+?\.\w{2,5})(#[^|\]\n]*)?(\|[^\]\n]+?)?\]\]/g;
+        // [Report](report.pdf) (not preceded by '!')
+        const markdownAttachmentRegex = /(?<!!)\[([^\]\n]*)\]\((<[^>\n]+?\.\w{2,5}>|[^)\s]+?\.\w{2,5})(?:\s+"[^"]+")?\)/g;
+
+        const queue = (fullMatch: string, linkPath: string, text: string, fragment = '') => {
+            if (/\.md$/i.test(linkPath) || /^[a-z][a-z0-9+.-]*:/i.test(linkPath)) {
+                return; // Notes are handled as wikilinks, URLs are left alone
+            }
+            // Notes with a dot in their name ('Release 1.10') are notes, not attachments
+            if (this.vault.getFirstLinkpathDest(linkPath, file.path)?.extension === 'md') {
+                return;
+            }
+            attachmentPromises.push(
+                this.handleAttachment(file, linkPath, context)
+                    // '#page=3' is kept as URL fragment (browsers' PDF viewers understand it)
+                    .then(url => ({ match: fullMatch, replacement: `[${text}](${url}${fragment})` }))
+                    .catch(error => {
+                        this.debug(`Error handling attachment ${linkPath}: ${error.message}`);
+                        context.warnings.push(`Missing attachment ${fullMatch}: ${error.message}`);
+                        this.addIssue(context, 'error', 'missing-attachment', file, fullMatch, `Missing attachment ${fullMatch}`);
+                        // A wikilink can't stay as it is (Hugo would show the brackets); markdown links are left alone
+                        return { match: fullMatch, replacement: fullMatch.startsWith('[[') ? text : fullMatch };
+                    })
+            );
+        };
+
+        for (const match of content.matchAll(wikiAttachmentRegex)) {
+            const linkPath = match[1].trim();
+            queue(match[0], linkPath, match[3] ? match[3].slice(1).trim() : path.basename(linkPath), match[2] ? match[2].trim() : '');
+        }
+        for (const match of content.matchAll(markdownAttachmentRegex)) {
+            queue(match[0], this.parseMarkdownLinkPath(match[2]), match[1]);
+        }
+
+        const results = await Promise.all(attachmentPromises);
+        return this.replaceMatches(content, results, 'attachment');
+    }
+
+    // Turns the destination of a markdown link into a vault link path: strips <angle brackets> and decodes %20 etc.
+    private parseMarkdownLinkPath(rawPath: string): string {
+        const trimmed = rawPath.trim();
+        const unwrapped = trimmed.startsWith('<') && trimmed.endsWith('>') ? trimmed.slice(1, -1) : trimmed;
+        return this.decodeLinkPath(unwrapped.trim());
+    }
+
+    // Decodes URL-encoded characters (e.g. %20) in a markdown link path, leaving malformed input untouched
+    private decodeLinkPath(linkPath: string): string {
+        try {
+            return decodeURIComponent(linkPath);
+        } catch {
+            return linkPath;
+        }
+    }
+
+    // Copies a linked file into the export target's attachment directory and returns its URL
+    private async handleAttachment(sourceNote: VaultFile, linkPath: string, context: ExportContext): Promise<string> {
+        this.debug(`Handling attachment: '${linkPath}' referenced in ${sourceNote.name}`);
+        return this.exportAttachment(sourceNote, linkPath, context);
+    }
+
+    // Handles finding, copying, and generating the output for a single embedded image or other attachment
+    private async handleEmbed(sourceNote: VaultFile, nameOrPath: string, altText: string, context: ExportContext): Promise<string> {
+        this.debug(`Handling embed: '${nameOrPath}' referenced in ${sourceNote.name}`);
+        const kind = this.getAttachmentKind(nameOrPath);
+        try {
+            // Copy the file to its Hugo static directory (or the page bundle)
+            const hugoUrl = await this.exportAttachment(sourceNote, nameOrPath, context);
+
+            // Images fall back to the file name without extension, download links show the full file name
+            const { name, base } = path.parse(parseLinktext(nameOrPath).path);
+            const markdown = this.renderEmbed(kind, hugoUrl, altText || (kind === 'image' ? name : base));
+            this.debug(`Generated Hugo ${kind} markup: ${markdown}`);
+            return markdown;
+
+        } catch (error) {
+             this.debug(`Embed handling failed for '${nameOrPath}': ${error.message}`);
+            throw new Error(`Failed to process ${kind} '${nameOrPath}': ${error.message}`);
+        }
+    }
+
+    // Output for an embedded attachment: an image, a media tag or shortcode, a PDF embed, or a download link
+    private renderEmbed(kind: AttachmentKind, url: string, text: string): string {
+        const shortcode = kind === 'video' || kind === 'audio' || kind === 'pdf' ? this.settings.mediaShortcodes[kind].trim() : '';
+        const escapedText = text.replace(/"/g, '&quot;');
+        switch (kind) {
+            case 'image':
+                // e.g. ![alt text](/images/image.png), or ![alt text](image.png) in a bundle
+                return `![${text}](${url})`;
+            case 'video':
+            case 'audio':
+                return shortcode
+                    ? `{{< ${shortcode} src="${url}" title="${escapedText}" >}}`
+                    : `<${kind} src="${url}" title="${escapedText}" controls></${kind}>`;
+            case 'pdf':
+                if (!this.settings.embedPdfs) {
+                    return `[${text}](${url})`;
+                }
+                return shortcode
+                    ? `{{< ${shortcode} src="${url}" title="${escapedText}" >}}`
+                    : `<object data="${url}" type="application/pdf" width="100%" height="600"><a href="${url}">${text}</a></object>`;
+            default:
+                return `[${text}](${url})`;
+        }
+    }
+
+    // Classifies an attachment by the extension of its name or link path
+    private getAttachmentKind(nameOrPath: string): AttachmentKind {
+        const extension = path.extname(parseLinktext(nameOrPath).path).slice(1).toLowerCase();
+        for (const [kind, extensions] of Object.entries(ATTACHMENT_EXTENSIONS)) {
+            if (extensions.includes(extension)) {
+                return kind as AttachmentKind;
+            }
+        }
+        return 'file';
+    }
+
+    // Directory and URL prefix an attachment of a kind goes to: bundles keep everything together,
+    // flat exports put non-image kinds in their folder next to the static images directory (e.g. static/videos)
+    private getAttachmentLocation(target: ExportTarget, kind: AttachmentKind, profile: HugoProfile): { directory: string, urlPrefix: string } {
+        const folder = kind === 'image' ? '' : this.settings.attachmentFolders[kind].trim().replace(/^\/+|\/+$/g, '');
+        if (target.mode === 'bundle' || !folder) {
+            return { directory: target.attachmentsDirectory, urlPrefix: target.attachmentsUrlPrefix };
+        }
+        const directory = path.join(path.dirname(target.attachmentsDirectory), ...folder.split('/'));
+        return { directory, urlPrefix: this.getStaticUrl(directory, profile) || this.withBasePath(`/${folder}/`, profile) };
+    }
+
+    // Resolves, names and copies an attachment; returns the URL to use in the exported markdown
+    private async exportAttachment(sourceNote: VaultFile, linkPath: string, context: ExportContext): Promise<string> {
+        const attachment = this.findAttachment(sourceNote, linkPath);
+        const sourcePath = this.getAbsolutePath(attachment);
+        this.debug(`Found attachment source at: ${sourcePath}`);
+        const location = this.getAttachmentLocation(context.target, this.getAttachmentKind(attachment.name), context.profile);
+
+        const sourceHash = this.hashContent(await fs.readFile(sourcePath));
+        // Translations name attachments after their primary note, so they share the copy
+        const namingNote = this.getPrimaryTranslation(sourceNote, context.profile);
+        const desiredPath = path.join(location.directory, this.getAttachmentName(namingNote, attachment, sourceHash));
+        const destinationPath = this.claimAttachmentDestination(desiredPath, attachment.path, !context.dryRun);
+        this.debug(`Attachment destination path: ${destinationPath}`);
+
+        if (!context.dryRun) {
+            await this.copyImage(sourcePath, destinationPath, sourceHash);
+        }
+        context.attachments.push({ source: attachment.path, destination: destinationPath });
+
+        // URL-encode each segment (subpath naming can produce nested folders)
+        const relativeUrl = path.relative(location.directory, destinationPath)
+            .split(path.sep)
+            .map(segment => encodeURIComponent(segment))
+            .join('/');
+        return `${location.urlPrefix}${relativeUrl}`;
+    }
+
+    // Resolves an attachment link the way Obsidian does, falling back to explicit note-relative and vault-root paths
+    private findAttachment(sourceNote: VaultFile, linkPath: string): VaultFile {
+        this.debug(`Searching for attachment '${linkPath}' relative to note '${sourceNote.path}'`);
+        const { path: linkpath } = parseLinktext(linkPath);
+
+        // Obsidian's own resolution: shortest unique path, relative paths and the configured attachment folder
+        const resolved = this.vault.getFirstLinkpathDest(linkpath, sourceNote.path);
+        if (resolved) {
+            return resolved;
+        }
+
+        const candidates = [
+            normalizePath(path.posix.join(path.posix.dirname(sourceNote.path), linkpath)),
+            normalizePath(linkpath.replace(/^\/+/, '')),
+        ];
+        for (const candidate of candidates) {
+            const file = this.vault.getFileByPath(candidate);
+            if (file) {
+                this.debug(`Found attachment via explicit path: ${candidate}`);
+                return file;
+            }
+        }
+        throw new Error(`Attachment not found: '${linkPath}' (linked from '${sourceNote.path}', also tried ${candidates.map(candidate => `'${candidate}'`).join(', ')})`);
+    }
+
+    // Absolute file system path of a vault file
+    private getAbsolutePath(file: VaultFile): string {
+        return this.vault.getFullPath(file);
+    }
+
+    // Destination file name (relative to the attachment directory) according to the naming strategy
+    private getAttachmentName(sourceNote: VaultFile, attachment: VaultFile, sourceHash: string): string {
+        const safeName = this.sanitizeFilename(attachment.name);
+        switch (this.settings.attachmentNaming) {
+            case 'subpath':
+                return attachment.path.split('/').map(segment => this.sanitizeFilename(segment)).join(path.sep);
+            case 'note-prefix':
+                return `${this.slugify(sourceNote.basename) || this.sanitizeFilename(sourceNote.basename)}-${safeName}`;
+            case 'hash': {
+                const { name, ext } = path.parse(safeName);
+                return `${name}-${sourceHash.slice(0, 8)}${ext}`;
+            }
+            default:
+                return safeName;
+        }
+    }
+
+    // Returns a destination no other source file has claimed (adding -2, -3... on collisions) and claims it (unless just looking).
+    // Runs synchronously so images handled in parallel can't pick the same name.
+    private claimAttachmentDestination(desiredPath: string, sourceVaultPath: string, claim = true): string {
+        const { dir, name, ext } = path.parse(desiredPath);
+        let candidate = desiredPath;
+        for (let counter = 2; ; counter++) {
+            const claim = this.exportManifest.attachments[candidate];
+            if (!claim || claim.source === sourceVaultPath) {
+                break;
+            }
+            this.debug(`Destination ${candidate} already belongs to ${claim.source}, trying another name`);
+            candidate = path.join(dir, `${name}-${counter}${ext}`);
+        }
+        const existing = this.exportManifest.attachments[candidate];
+        if (claim) {
+            this.exportManifest.attachments[candidate] = { source: sourceVaultPath, hash: existing ? existing.hash : '' };
+        }
+        return candidate;
+    }
+
+    // Copies an image file from source to destination, creating directories if needed
+    private async copyImage(source: string, dest: string, sourceHash: string): Promise<void> {
+        const destDir = path.dirname(dest);
+        try {
+            // Ensure the destination directory exists
+            await fs.mkdir(destDir, { recursive: true });
+            this.debug(`Ensured destination directory exists: ${destDir}`);
+
+            // Skip the copy if the manifest says this exact content was already copied there
+            const claim = this.exportManifest.attachments[dest];
+            if (claim && claim.hash === sourceHash && await this.pathExists(dest)) {
+                this.debug(`Image unchanged since last export, skipping copy: ${dest}`);
+                return;
+            }
+
+            // Copy the file (replaces an existing destination)
+            await this.replaceFile(dest, tempPath => fs.copyFile(source, tempPath));
+            if (claim) {
+                claim.hash = sourceHash;
+            }
+            this.debug(`Successfully copied image from ${source} to ${dest}`);
+        } catch (error) {
+            this.debug(`Image copy failed: ${error.message}`);
+            throw new Error(`Failed to copy image from '${source}' to '${dest}': ${error.message}`);
+        }
+    }
+
+    // Writes the processed markdown content to the Hugo posts directory (or its page bundle)
+    private async writeHugoFile(note: ProcessedNote): Promise<void> {
+        const destPath = note.target.contentPath;
+        const destDir = path.dirname(destPath);
+        // Name shown to the user, e.g. 'My-Note.md' or 'my-note/index.md'
+        const safeFilename = path.relative(this.getPostsDirectory(note.profile), destPath);
+
+        this.debug(`Attempting to write Hugo file to: ${destPath}`);
+
+        try {
+            // Ensure the Hugo posts (or bundle) directory exists
+            await fs.mkdir(destDir, { recursive: true });
+             this.debug(`Ensured posts directory exists: ${destDir}`);
+
+            // Write the processed content to the destination file
+            await this.replaceFile(destPath, tempPath => fs.writeFile(tempPath, note.content, 'utf8'));
+            this.debug(`Successfully wrote Hugo file: ${destPath}`);
+        } catch (error) {
+            this.debug(`Error writing Hugo file ${destPath}: ${error.message}`);
+            throw new Error(`Failed to write Hugo file '${safeFilename}': ${error.message}`);
+        }
+    }
+
+    // Starts an export batch: until endBatch, files are backed up before they are overwritten or deleted and every
+    // change is journaled, so the batch can be undone. Nested calls join the open batch (and add their notes to it).
+    beginBatch(notes: VaultFile[] = []) {
+        notes.forEach(note => this.batchNotes.add(note.path));
+        if (this.batchDepth++ > 0 || this.settings.keepBackups <= 0) {
+            return;
+        }
+        const startedAt = new Date().toISOString();
+        this.batch = {
+            // Sortable and safe as a folder name on every platform
+            directory: path.join(this.getBackupRoot(), startedAt.replace(/[:.]/g, '-')),
+            journal: { startedAt, manifest: JSON.parse(JSON.stringify(this.exportManifest)), entries: [] },
+            backupCount: 0,
+            saving: Promise.resolve(),
+        };
+    }
+
+    // Ends the export batch and drops the backups of batches beyond keepBackups
+    async endBatch() {
+        if (this.batchDepth === 0 || --this.batchDepth > 0) {
+            return;
+        }
+        this.batchNotes.clear();
+        const batch = this.batch;
+        this.batch = null;
+        if (batch && batch.journal.entries.length > 0) {
+            await batch.saving;
+            const batches = await this.listBackupBatches();
+            for (const old of batches.slice(0, Math.max(0, batches.length - this.settings.keepBackups))) {
+                this.debug(`Removing old export backup: ${old}`);
+                await fs.rm(path.join(this.getBackupRoot(), old), { recursive: true, force: true });
+            }
+        }
+    }
+
+    // Rolls back the newest export batch: restores the files it overwrote or deleted, removes the files it created and
+    // puts the manifest back. Returns what was done, or null if there is nothing to undo.
+    async undoLastExport(): Promise<{ startedAt: string, restored: number, removed: number } | null> {
+        if (this.batchDepth > 0) {
+            throw new Error('An export is still running.');
+        }
+        const batches = await this.listBackupBatches();
+        if (batches.length === 0) {
+            return null;
+        }
+        const directory = path.join(this.getBackupRoot(), batches[batches.length - 1]);
+        const journal: ExportJournal = JSON.parse(await fs.readFile(path.join(directory, JOURNAL_FILE), 'utf8'));
+        let restored = 0;
+        let removed = 0;
+        for (const entry of [...journal.entries].reverse()) {
+            const backup = entry.backup;
+            if (backup) {
+                this.debug(`Restoring ${entry.path}`);
+                await fs.mkdir(path.dirname(entry.path), { recursive: true });
+                await this.replaceFile(entry.path, tempPath => fs.copyFile(backup, tempPath));
+                restored++;
+            } else if (await this.pathExists(entry.path)) {
+                this.debug(`Removing ${entry.path}`);
+                await fs.unlink(entry.path);
+                await this.removeEmptyDirectory(path.dirname(entry.path));
+                removed++;
+            }
+        }
+        this.host.exportManifest = journal.manifest;
+        await fs.rm(directory, { recursive: true, force: true });
+        return { startedAt: journal.startedAt, restored, removed };
+    }
+
+    // Deletes a file the plugin wrote (backing it up in the open batch) and the bundle folder it leaves empty
+    async removeOutput(filePath: string) {
+        await this.journalChange(filePath);
+        await fs.unlink(filePath);
+        await this.removeEmptyDirectory(path.dirname(filePath));
+    }
+
+    // Removes a directory if it is empty, unless it is one of the configured output directories
+    private async removeEmptyDirectory(directory: string) {
+        const protectedDirs = this.settings.profiles.flatMap(profile => [this.getPostsDirectory(profile), this.getImagesDirectory(profile)]);
+        if (!protectedDirs.includes(directory)) {
+            // Only succeeds if the directory is empty
+            await fs.rmdir(directory).catch(() => undefined);
+        }
+    }
+
+    // Absolute folder export backups are kept in
+    private getBackupRoot(): string {
+        const configured = this.settings.backupDirectory.trim();
+        return configured ? this.resolvePath(configured) : this.host.defaultBackupDirectory;
+    }
+
+    // Backup folders of past batches that have a journal, oldest first
+    private async listBackupBatches(): Promise<string[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.getBackupRoot());
+        } catch {
+            return [];
+        }
+        const batches: string[] = [];
+        for (const name of names.sort()) {
+            if (await this.pathExists(path.join(this.getBackupRoot(), name, JOURNAL_FILE))) {
+                batches.push(name);
+            }
+        }
+        return batches;
+    }
+
+    // Journals a file the open batch is about to change for the first time, backing up its current content.
+    // The journal is saved before the change, so even an interrupted export can be undone.
+    private async journalChange(filePath: string) {
+        const batch = this.batch;
+        if (!batch || batch.journal.entries.some(entry => entry.path === filePath)) {
+            return;
+        }
+        let backup: string | null = null;
+        if (await this.pathExists(filePath)) {
+            backup = path.join(batch.directory, 'files', `${++batch.backupCount}-${path.basename(filePath)}`);
+            await fs.mkdir(path.dirname(backup), { recursive: true });
+            await fs.copyFile(filePath, backup);
+        }
+        // Another write may have journaled the file meanwhile
+        if (batch.journal.entries.some(entry => entry.path === filePath)) {
+            return;
+        }
+        batch.journal.entries.push({ path: filePath, backup });
+        const journal = JSON.stringify(batch.journal, null, 2);
+        batch.saving = batch.saving.then(async () => {
+            await fs.mkdir(batch.directory, { recursive: true });
+            await fs.writeFile(path.join(batch.directory, JOURNAL_FILE), journal);
+        });
+        await batch.saving;
+    }
+
+    // Replaces a file through a temporary file renamed into place, so an interrupted export never leaves it half-written
+    private async replaceFile(filePath: string, write: (tempPath: string) => Promise<void>) {
+        await this.journalChange(filePath);
+        const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${Math.random().toString(36).slice(2, 10)}.tmp`);
+        try {
+            await write(tempPath);
+            await fs.rename(tempPath, filePath);
+        } catch (error) {
+            await fs.rm(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    // Converts a string into a URL-friendly slug
+    private slugify(text: string): string {
+        return text
+            .toString()
+            .normalize('NFKD') // split accented characters into base characters and diacritics
+            .replace(/[\u0300-\u036f]/g, '') // remove diacritics
+            .toLowerCase()
+            .trim()
+            .replace(/[^\w\s-]/g, '') // remove non-word characters (excluding spaces and hyphens)
+            .replace(/[\s_-]+/g, '-') // replace spaces and underscores with hyphens
+            .replace(/^-+|-+$/g, ''); // remove leading/trailing hyphens
+    }
+
+    // Converts a heading into the anchor ID Hugo generates for it (Goldmark's default 'github' style)
+    private anchorize(heading: string): string {
+        return heading
+            .trim()
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}\s_-]/gu, '') // drop punctuation, keep letters/digits in any script
+            .replace(/\s/g, '-');
+    }
+
+    // Makes a path segment look like the URLs Hugo generates (lower case, no spaces)
+    private urlize(segment: string): string {
+        return segment.trim().toLowerCase().replace(/\s+/g, '-');
+    }
+
+    // Cleans a filename to remove potentially problematic characters for file systems/URLs
+    private sanitizeFilename(filename: string): string {
+        // Remove potentially problematic characters: <>:"/\|?* and control characters
+        // Replace spaces with underscores or hyphens (using hyphen consistent with slugify)
+        const sanitized = filename
+            .replace(/[\s]+/g, '-') // Replace whitespace with hyphen
+            .replace(/[<>:"/\\|?*\x00-\x1F]/g, '') // Remove forbidden characters
+            .replace(/-{2,}/g, '-') // Collapse multiple hyphens
+            .replace(/^-+|-+$/g, ''); // Trim leading/trailing hyphens
+
+        if (sanitized !== filename) {
+            this.debug(`Sanitized filename: '${filename}' -> '${sanitized}'`);
+        }
+        // Ensure filename isn't empty after sanitization
+        return sanitized || 'untitled';
+    }
+
+    // Logs through the host
+    private debug(message: string) {
+        this.host.debug(message);
+    }
+}
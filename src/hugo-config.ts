@@ -0,0 +1,168 @@
+import * as path from 'path';
+// Use node's fs.promises API for async file operations
+import * as fs from 'fs/promises';
+import matter from 'gray-matter';
+import { TomlTable, parseToml } from './toml';
+
+// Config files Hugo looks for in the site root; the first one found is used
+const ROOT_CONFIG_FILES = ['hugo.toml', 'hugo.yaml', 'hugo.yml', 'hugo.json', 'config.toml', 'config.yaml', 'config.yml', 'config.json'];
+// Folders of the config directory read on top of the root file, in order (a plain 'hugo' build uses 'production')
+const CONFIG_DIRECTORIES = ['_default', 'production'];
+const CONFIG_EXTENSIONS = ['.toml', '.yaml', '.yml', '.json'];
+
+// The parts of a Hugo site's configuration the exporter uses. Paths are absolute.
+export interface HugoSiteConfig {
+    // Config files read, in the order they were merged (later ones win)
+    files: string[];
+    baseURL: string;
+    // Path of baseURL that every page URL starts with, e.g. '/blog/' ('/' for a site at the root of its domain)
+    basePath: string;
+    contentDir: string;
+    staticDirs: string[];
+    // defaultContentLanguage ('' if not set)
+    defaultLanguage: string;
+    // Whether the default language is served below /<lang>/ too (defaultContentLanguageInSubdir)
+    defaultLanguageInSubdir: boolean;
+    // Language code -> content directory, for languages that set contentDir
+    languageContentDirs: Record<string, string>;
+    // Section -> permalink pattern, e.g. { posts: '/:year/:month/:slug/' }
+    permalinks: Record<string, string>;
+}
+
+// Config files of a site in the order Hugo merges them: the root file, then config/_default and config/production
+// (hugo.* and config.* first, then files named after a top-level key such as params.toml or languages.yaml)
+export async function findHugoConfigFiles(siteRoot: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const name of ROOT_CONFIG_FILES) {
+        if (await isFile(path.join(siteRoot, name))) {
+            files.push(path.join(siteRoot, name));
+            break;
+        }
+    }
+    for (const directory of CONFIG_DIRECTORIES) {
+        let names: string[];
+        try {
+            names = (await fs.readdir(path.join(siteRoot, 'config', directory))).sort();
+        } catch {
+            continue;
+        }
+        const configNames = names.filter(name => CONFIG_EXTENSIONS.includes(path.extname(name)) && !path.basename(name, path.extname(name)).includes('.'));
+        const isMain = (name: string) => ['hugo', 'config'].includes(path.basename(name, path.extname(name)));
+        for (const name of [...configNames.filter(isMain), ...configNames.filter(name => !isMain(name))]) {
+            files.push(path.join(siteRoot, 'config', directory, name));
+        }
+    }
+    return files;
+}
+
+// Reads and merges a site's config files (see findHugoConfigFiles); returns null if the site has none
+export async function loadHugoConfig(siteRoot: string, files: string[]): Promise<HugoSiteConfig | null> {
+    if (files.length === 0) {
+        return null;
+    }
+    let merged: TomlTable = {};
+    for (const file of files) {
+        let data: TomlTable;
+        try {
+            data = parseConfigFile(file, await fs.readFile(file, 'utf8'));
+        } catch (error) {
+            throw new Error(`Could not read Hugo config ${file}: ${error.message}`);
+        }
+        // Files in the config directory named after a key hold that key's value, e.g. languages.toml
+        const key = path.basename(file, path.extname(file));
+        merged = mergeTables(merged, ['hugo', 'config'].includes(key) ? data : { [key]: data });
+    }
+
+    const baseURL = String(getKey(merged, 'baseURL') ?? '');
+    let basePath = '/';
+    try {
+        basePath = new URL(baseURL).pathname;
+    } catch {
+        // No baseURL, or a relative one: pages are served from the root
+    }
+    const staticDir = getKey(merged, 'staticDir');
+    const staticDirs = (Array.isArray(staticDir) ? staticDir : [staticDir ?? 'static']).map(dir => path.resolve(siteRoot, String(dir)));
+    const languageContentDirs: Record<string, string> = {};
+    const languages = asTable(getKey(merged, 'languages'));
+    for (const [language, settings] of Object.entries(languages)) {
+        const contentDir = getKey(asTable(settings), 'contentDir');
+        if (typeof contentDir === 'string' && contentDir.trim()) {
+            languageContentDirs[language.toLowerCase()] = path.resolve(siteRoot, contentDir);
+        }
+    }
+    // Hugo 0.120 added per page kind permalinks ([permalinks.page]); plain [permalinks] entries are for pages
+    const permalinkTable = asTable(getKey(merged, 'permalinks'));
+    const permalinks: Record<string, string> = {};
+    for (const [section, pattern] of Object.entries({ ...permalinkTable, ...asTable(getKey(permalinkTable, 'page')) })) {
+        if (typeof pattern === 'string') {
+            permalinks[section] = pattern;
+        }
+    }
+
+    return {
+        files,
+        baseURL,
+        basePath: basePath.endsWith('/') ? basePath : `${basePath}/`,
+        contentDir: path.resolve(siteRoot, String(getKey(merged, 'contentDir') ?? 'content')),
+        staticDirs,
+        defaultLanguage: String(getKey(merged, 'defaultContentLanguage') ?? '').trim().toLowerCase(),
+        defaultLanguageInSubdir: getKey(merged, 'defaultContentLanguageInSubdir') === true,
+        languageContentDirs,
+        permalinks,
+    };
+}
+
+// Parses a TOML, YAML or JSON config file
+function parseConfigFile(file: string, content: string): TomlTable {
+    switch (path.extname(file)) {
+        case '.toml':
+            return parseToml(content);
+        case '.json':
+            return asTable(JSON.parse(content));
+        default:
+            // gray-matter brings the YAML parser; a config file is a front matter block without the body
+            return asTable(matter(`---\n${content}\n---\n`).data);
+    }
+}
+
+// Merges b into a, recursing into tables; values of b win
+function mergeTables(a: TomlTable, b: TomlTable): TomlTable {
+    const result: TomlTable = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+        const existing = Object.keys(result).find(candidate => candidate.toLowerCase() === key.toLowerCase());
+        if (existing !== undefined && isTable(result[existing]) && isTable(value)) {
+            result[existing] = mergeTables(result[existing] as TomlTable, value);
+        } else {
+            if (existing !== undefined) {
+                delete result[existing];
+            }
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+// Looks up a key the way Hugo does: case-insensitively
+function getKey(table: TomlTable, key: string): unknown {
+    const found = Object.keys(table).find(candidate => candidate.toLowerCase() === key.toLowerCase());
+    return found === undefined ? undefined : table[found];
+}
+
+// True for tables (not arrays, dates or null)
+function isTable(value: unknown): value is TomlTable {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// The value if it is a table, else an empty one
+function asTable(value: unknown): TomlTable {
+    return isTable(value) ? value : {};
+}
+
+// Whether a path is an existing file
+async function isFile(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.stat(filePath)).isFile();
+    } catch {
+        return false;
+    }
+}
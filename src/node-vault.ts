@@ -0,0 +1,295 @@
+import * as path from 'path';
+// Use node's fs.promises API for async file operations
+import * as fs from 'fs/promises';
+import matter from 'gray-matter';
+import { ExportVault, INLINE_TAG_REGEX, SubpathRange, VaultFile, normalizePath, parseLinktext } from './vault';
+
+// Matches a fenced code block, so scans for tags, links and headings can skip code
+const FENCED_CODE_REGEX = /^[ \t]{0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n[ \t]{0,3}\1[ \t]*$/gm;
+// Matches a front matter block at the start of a note
+const FRONT_MATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// A heading found in a note, with the offset of its line
+interface Heading {
+    level: number;
+    text: string;
+    offset: number;
+}
+
+// ExportVault on top of a plain vault directory, for running the exporter without Obsidian.
+// Mirrors what Obsidian's metadata cache provides closely enough for identical output.
+export class NodeVault implements ExportVault {
+    root: string;
+    private files = new Map<string, VaultFile>();
+    // Lower-cased vault path -> file; Obsidian resolves links case-insensitively
+    private filesByLowerPath = new Map<string, VaultFile>();
+    private contents = new Map<string, string>();
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    // Scans the vault directory and reads every note; hidden folders (.obsidian, .git, .trash) are skipped
+    async load(): Promise<void> {
+        const walk = async (dir: string) => {
+            const entries = await fs.readdir(path.join(this.root, dir), { withFileTypes: true });
+            for (const entry of entries) {
+                if (entry.name.startsWith('.')) {
+                    continue;
+                }
+                const vaultPath = dir ? `${dir}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    await walk(vaultPath);
+                } else if (entry.isFile()) {
+                    const extension = path.extname(entry.name).slice(1);
+                    const file: VaultFile = {
+                        path: vaultPath,
+                        name: entry.name,
+                        basename: extension ? entry.name.slice(0, -(extension.length + 1)) : entry.name,
+                        extension,
+                    };
+                    this.files.set(vaultPath, file);
+                    this.filesByLowerPath.set(vaultPath.toLowerCase(), file);
+                    if (extension === 'md') {
+                        this.contents.set(vaultPath, await fs.readFile(path.join(this.root, vaultPath), 'utf8'));
+                    }
+                }
+            }
+        };
+        await walk('');
+    }
+
+    getMarkdownFiles(): VaultFile[] {
+        return [...this.files.values()]
+            .filter(file => file.extension === 'md')
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    getFileByPath(filePath: string): VaultFile | null {
+        return this.files.get(filePath) || null;
+    }
+
+    async read(file: VaultFile): Promise<string> {
+        const content = this.contents.get(file.path);
+        return content !== undefined ? content : fs.readFile(this.getFullPath(file), 'utf8');
+    }
+
+    getFrontMatter(file: VaultFile): Record<string, any> | undefined {
+        const content = this.contents.get(file.path);
+        if (content === undefined || !FRONT_MATTER_REGEX.test(content)) {
+            return undefined;
+        }
+        try {
+            return matter(content).data;
+        } catch {
+            // Obsidian ignores front matter it can't parse
+            return undefined;
+        }
+    }
+
+    getTags(file: VaultFile): string[] {
+        const frontMatter = this.getFrontMatter(file) || {};
+        const tags: string[] = [];
+        for (const value of [frontMatter.tags, frontMatter.tag]) {
+            const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+            for (const tag of list) {
+                if (tag !== null && tag !== undefined && String(tag).trim()) {
+                    const name = String(tag).trim();
+                    tags.push(name.startsWith('#') ? name : `#${name}`);
+                }
+            }
+        }
+        for (const match of this.getScannableBody(file).matchAll(INLINE_TAG_REGEX)) {
+            // Purely numeric '#123' is not a tag
+            if (/[^\d/]/.test(match[1])) {
+                tags.push(`#${match[1]}`);
+            }
+        }
+        return tags;
+    }
+
+    getFirstLinkpathDest(linkpath: string, sourcePath: string): VaultFile | null {
+        if (!linkpath) {
+            return this.getFileByPath(sourcePath);
+        }
+        const lookup = (vaultPath: string) => this.filesByLowerPath.get(vaultPath.toLowerCase()) || null;
+        const sourceDir = path.posix.dirname(sourcePath);
+
+        // './note' and '../note' are relative to the linking note
+        if (linkpath.startsWith('./') || linkpath.startsWith('../')) {
+            const relative = normalizePath(path.posix.join(sourceDir === '.' ? '' : sourceDir, linkpath));
+            return lookup(relative) || lookup(`${relative}.md`);
+        }
+
+        const wanted = normalizePath(linkpath);
+        const exact = lookup(wanted) || lookup(`${wanted}.md`);
+        if (exact) {
+            return exact;
+        }
+
+        // Otherwise any file whose path ends with the link path; one next to the linking note wins, then the shortest path
+        const suffixes = [wanted.toLowerCase(), `${wanted.toLowerCase()}.md`];
+        const candidates = [...this.files.values()].filter(file => {
+            const lowerPath = file.path.toLowerCase();
+            return suffixes.some(suffix => lowerPath === suffix || lowerPath.endsWith(`/${suffix}`));
+        });
+        candidates.sort((a, b) => {
+            const aLocal = path.posix.dirname(a.path) === sourceDir ? 0 : 1;
+            const bLocal = path.posix.dirname(b.path) === sourceDir ? 0 : 1;
+            return aLocal - bLocal || a.path.length - b.path.length || a.path.localeCompare(b.path);
+        });
+        return candidates[0] || null;
+    }
+
+    getLinkedPaths(file: VaultFile): string[] {
+        const body = this.getScannableBody(file);
+        const linkpaths: string[] = [];
+        for (const match of body.matchAll(/\[\[([^\]\n]+?)\]\]/g)) {
+            linkpaths.push(parseLinktext(match[1].split('|')[0].trim()).path);
+        }
+        for (const match of body.matchAll(/\]\((<[^>\n]+>|[^)\s]+)(?:\s+"[^"]*")?\)/g)) {
+            const target = match[1].replace(/^<|>$/g, '');
+            if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+                continue; // URLs
+            }
+            try {
+                linkpaths.push(parseLinktext(decodeURIComponent(target)).path);
+            } catch {
+                linkpaths.push(parseLinktext(target).path);
+            }
+        }
+        const linked = new Set<string>();
+        for (const linkpath of linkpaths) {
+            const destination = linkpath ? this.getFirstLinkpathDest(linkpath, file.path) : null;
+            if (destination && destination.path !== file.path) {
+                linked.add(destination.path);
+            }
+        }
+        return [...linked];
+    }
+
+    resolveSubpath(file: VaultFile, subpath: string): SubpathRange | null {
+        const content = this.contents.get(file.path);
+        const parts = subpath.split('#').map(part => part.trim()).filter(part => part);
+        if (content === undefined || parts.length === 0) {
+            return null;
+        }
+        const last = parts[parts.length - 1];
+        if (last.startsWith('^')) {
+            return this.findBlock(content, last.slice(1));
+        }
+
+        // '#Parent#Child' finds Child below Parent
+        const headings = this.getHeadings(content);
+        let index = -1;
+        for (const part of parts) {
+            const wanted = this.cleanHeading(part);
+            const parentLevel = index === -1 ? 0 : headings[index].level;
+            index = headings.findIndex((heading, i) => i > index && heading.level > parentLevel && this.cleanHeading(heading.text) === wanted);
+            if (index === -1) {
+                return null;
+            }
+        }
+        const heading = headings[index];
+        const next = headings.find((candidate, i) => i > index && candidate.level <= heading.level);
+        return { start: heading.offset, end: next ? next.offset : null };
+    }
+
+    getFullPath(file: VaultFile): string {
+        return path.join(this.root, ...file.path.split('/'));
+    }
+
+    async getFileTimes(file: VaultFile): Promise<{ created: number, modified: number }> {
+        const stat = await fs.stat(this.getFullPath(file));
+        // Some file systems don't record a birth time (0); the modification time is the closest stand-in
+        return { created: stat.birthtimeMs || stat.mtimeMs, modified: stat.mtimeMs };
+    }
+
+    async setFrontMatterValue(file: VaultFile, key: string, value: string): Promise<void> {
+        const content = await this.read(file);
+        const newline = content.includes('\r\n') ? '\r\n' : '\n';
+        const line = `${key}: ${value}`;
+        const frontMatter = content.match(FRONT_MATTER_REGEX);
+        let updated: string;
+        if (!frontMatter) {
+            updated = `---${newline}${line}${newline}---${newline}${content}`;
+        } else {
+            const keyRegex = new RegExp(`^${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[ \\t]*:.*$`, 'm');
+            const block = keyRegex.test(frontMatter[0])
+                ? frontMatter[0].replace(keyRegex, line)
+                // Insert before the closing '---'
+                : frontMatter[0].replace(/(\r?\n)---([ \t]*(?:\r?\n)?)$/, `$1${line}$1---$2`);
+            updated = block + content.slice(frontMatter[0].length);
+        }
+        await fs.writeFile(this.getFullPath(file), updated, 'utf8');
+        this.contents.set(file.path, updated);
+    }
+
+    // Note body without front matter and code, for tag and link scans
+    private getScannableBody(file: VaultFile): string {
+        const content = this.contents.get(file.path) || '';
+        return content
+            .replace(FRONT_MATTER_REGEX, '')
+            .replace(FENCED_CODE_REGEX, '')
+            .replace(/`[^`\n]+`/g, '');
+    }
+
+    // ATX headings outside front matter and fenced code, in document order
+    private getHeadings(content: string): Heading[] {
+        const headings: Heading[] = [];
+        const frontMatter = content.match(FRONT_MATTER_REGEX);
+        let offset = frontMatter ? frontMatter[0].length : 0;
+        let openFence: string | null = null;
+        for (const line of content.slice(offset).split('\n')) {
+            const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+            if (openFence) {
+                if (fenceMatch && fenceMatch[1][0] === openFence[0] && fenceMatch[1].length >= openFence.length) {
+                    openFence = null;
+                }
+            } else if (fenceMatch) {
+                openFence = fenceMatch[1];
+            } else {
+                const heading = line.match(/^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*\r?$/);
+                if (heading) {
+                    headings.push({ level: heading[1].length, text: heading[2], offset });
+                }
+            }
+            offset += line.length + 1;
+        }
+        return headings;
+    }
+
+    // Heading text as compared with link subpaths: link-unsafe characters and extra whitespace don't matter
+    private cleanHeading(text: string): string {
+        return text.replace(/[#^|:%[\]\\]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+    }
+
+    // The paragraph or list item carrying '^blockId' (or, for an ID on its own line, the block above it)
+    private findBlock(content: string, blockId: string): SubpathRange | null {
+        const lines = content.split('\n');
+        const idRegex = new RegExp(`(?:^|\\s)\\^${blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[ \\t]*\\r?$`);
+        const lineIndex = lines.findIndex(line => idRegex.test(line));
+        if (lineIndex === -1) {
+            return null;
+        }
+        const lineOffset = (index: number) => lines.slice(0, index).reduce((sum, line) => sum + line.length + 1, 0);
+        const isBlank = (index: number) => !lines[index].trim();
+        const end = lineOffset(lineIndex) + lines[lineIndex].replace(/\r$/, '').length;
+
+        let first = lineIndex;
+        if (lines[lineIndex].trim().startsWith('^')) {
+            // ID on its own line: the block above (skipping blank lines in between)
+            first--;
+            while (first > 0 && isBlank(first)) {
+                first--;
+            }
+        }
+        // List items are blocks of their own; paragraphs start after the previous blank line or heading
+        if (!/^\s*(?:[-*+]|\d+[.)])\s/.test(lines[first])) {
+            while (first > 0 && !isBlank(first - 1) && !/^ {0,3}#{1,6}\s/.test(lines[first]) && !/^\s*(?:[-*+]|\d+[.)])\s/.test(lines[first - 1])) {
+                first--;
+            }
+        }
+        return { start: lineOffset(Math.max(first, 0)), end };
+    }
+}
@@ -0,0 +1,81 @@
+import { App, FileSystemAdapter, TFile, getAllTags, resolveSubpath } from 'obsidian';
+import { ExportVault, SubpathRange, VaultFile } from './vault';
+
+// ExportVault on top of Obsidian's vault and metadata cache
+export class ObsidianVault implements ExportVault {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    getMarkdownFiles(): TFile[] {
+        return this.app.vault.getMarkdownFiles();
+    }
+
+    getFileByPath(filePath: string): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        return file instanceof TFile ? file : null;
+    }
+
+    async read(file: VaultFile): Promise<string> {
+        return this.app.vault.read(this.toTFile(file));
+    }
+
+    getFrontMatter(file: VaultFile): Record<string, any> | undefined {
+        return this.app.metadataCache.getFileCache(this.toTFile(file))?.frontmatter;
+    }
+
+    getTags(file: VaultFile): string[] {
+        const cache = this.app.metadataCache.getFileCache(this.toTFile(file));
+        return (cache && getAllTags(cache)) || [];
+    }
+
+    getFirstLinkpathDest(linkpath: string, sourcePath: string): TFile | null {
+        return this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    }
+
+    getLinkedPaths(file: VaultFile): string[] {
+        return Object.keys(this.app.metadataCache.resolvedLinks[file.path] || {});
+    }
+
+    resolveSubpath(file: VaultFile, subpath: string): SubpathRange | null {
+        const cache = this.app.metadataCache.getFileCache(this.toTFile(file));
+        const resolved = cache ? resolveSubpath(cache, subpath) : null;
+        if (!resolved) {
+            return null;
+        }
+        return { start: resolved.start.offset, end: resolved.end ? resolved.end.offset : null };
+    }
+
+    getFullPath(file: VaultFile): string {
+        const adapter = this.app.vault.adapter;
+        if (!(adapter instanceof FileSystemAdapter)) {
+            throw new Error('Exporting attachments requires a vault on the local file system.');
+        }
+        return adapter.getFullPath(file.path);
+    }
+
+    async getFileTimes(file: VaultFile): Promise<{ created: number, modified: number }> {
+        const { ctime, mtime } = this.toTFile(file).stat;
+        return { created: ctime, modified: mtime };
+    }
+
+    async setFrontMatterValue(file: VaultFile, key: string, value: string): Promise<void> {
+        await this.app.fileManager.processFrontMatter(this.toTFile(file), frontMatter => {
+            frontMatter[key] = value;
+        });
+    }
+
+    // The exporter hands back files it got from this vault; look them up again to get the TFile
+    private toTFile(file: VaultFile): TFile {
+        if (file instanceof TFile) {
+            return file;
+        }
+        const found = this.getFileByPath(file.path);
+        if (!found) {
+            throw new Error(`File not found in vault: ${file.path}`);
+        }
+        return found;
+    }
+}
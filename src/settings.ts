@@ -0,0 +1,310 @@
+// Settings shared by the plugin and the CLI: site profiles, conversion options and their defaults
+
+// How a note is laid out in the Hugo content directory:
+// 'flat'   -> <postsDirectory>/<name>.md, images in the shared static images directory
+// 'bundle' -> <postsDirectory>/<slug>/index.md, images and attachments next to index.md (leaf bundle)
+export type OutputMode = 'flat' | 'bundle';
+
+// Front matter key that lets a single note override the configured output mode
+export const OUTPUT_MODE_KEY = 'hugo_output';
+
+// What to do with a wikilink whose target can't be found or isn't published:
+// 'text' -> emit the display text only
+// 'keep' -> emit a best-guess link built from the slugified link text
+// 'warn' -> emit the display text and report a warning after the export
+export type UnresolvedLinkPolicy = 'text' | 'keep' | 'warn';
+
+// How Obsidian callouts ('> [!type] Title') are rendered:
+// 'shortcode'  -> {{< callout type="..." title="..." >}}...{{< /callout >}} (shortcode name configurable per type)
+// 'blockquote' -> a regular blockquote with a Goldmark block attribute class ({.callout .callout-type})
+// 'none'       -> left untouched
+export type CalloutStyle = 'shortcode' | 'blockquote' | 'none';
+
+// How $inline$ and $$block$$ math is exported:
+// 'passthrough' -> left as-is but protected from other conversions (for Goldmark's passthrough extension)
+// 'shortcode'   -> wrapped in a math shortcode, e.g. {{< math >}}$$...$${{< /math >}}
+// 'none'        -> not treated specially
+export type MathStyle = 'passthrough' | 'shortcode' | 'none';
+
+// How copied attachments are named in the destination directory:
+// 'basename'    -> diagram.png (flattened)
+// 'subpath'     -> projA/diagram.png (vault folder structure preserved)
+// 'note-prefix' -> my-note-diagram.png
+// 'hash'        -> diagram-1a2b3c4d.png (content hash)
+// Whatever the strategy, two different source files never share a destination: later ones get a -2, -3... suffix.
+export type AttachmentNaming = 'basename' | 'subpath' | 'note-prefix' | 'hash';
+
+// Attachments are classified by extension; each kind has its own static folder and output:
+// 'image' -> ![alt](url)
+// 'video' -> <video> tag or a shortcode
+// 'audio' -> <audio> tag or a shortcode
+// 'pdf'   -> <object> embed (with a download link fallback), a shortcode, or a download link
+// 'file'  -> download link
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'pdf' | 'file';
+
+// Front matter syntax written to exported files: YAML (---), TOML (+++) or JSON ({ ... })
+export type FrontMatterFormat = 'yaml' | 'toml' | 'json';
+
+// How nested tags ('#parent/child') are written:
+// 'full'       -> tags: ['parent/child']
+// 'leaf'       -> tags: ['child']
+// 'categories' -> categories: ['parent'], tags: ['child']
+export type NestedTagMode = 'full' | 'leaf' | 'categories';
+
+// Where 'date' comes from when a note has none (a 'date' front matter key, or one renamed to it, always wins):
+// 'first-export' -> the time the note was first exported, recorded in the export manifest
+// 'created'      -> the file's creation time
+// 'now'          -> the time of each export
+export type DateSource = 'first-export' | 'created' | 'now';
+
+// Where 'lastmod' comes from when a note has none:
+// 'none'     -> not written
+// 'modified' -> the file's modification time
+// 'content'  -> the last export that changed the exported note, recorded in the export manifest
+export type LastmodSource = 'none' | 'modified' | 'content';
+
+// Front matter key that lets a note choose the profile it is exported with by default
+export const PROFILE_KEY = 'hugo_profile';
+
+// Front matter key that puts a note into a Hugo section (a folder below the content directory), overriding the routes
+export const SECTION_KEY = 'section';
+
+// How links to other exported notes are written:
+// 'url'    -> [text](/posts/slug/), built from the link prefix and section routes
+// 'relref' -> [text]({{< relref "/posts/slug.md" >}}), resolved (and checked) by Hugo; links to notes outside the
+//             publish set become plain text (the 'keep' unresolved link policy has no URL to guess there)
+export type LinkStyle = 'url' | 'relref';
+
+// How notes with a language (LANGUAGE_KEY front matter, else the profile's default language) are laid out:
+// 'none'      -> languages are ignored
+// 'filename'  -> translation files next to each other: post.fr.md, <slug>/index.fr.md (default language unsuffixed)
+// 'directory' -> per-language content directories: content/<lang>/posts/...
+// Notes sharing a 'translationKey' are translations of each other and are placed and named like the one in the default language.
+export type LanguageMode = 'none' | 'filename' | 'directory';
+
+// Front matter key holding a note's language code, e.g. 'fr'
+export const LANGUAGE_KEY = 'lang';
+
+// Front matter key (Hugo's own) that links translations of a note
+export const TRANSLATION_KEY = 'translationKey';
+
+// Front matter key that lets a note pick its export template (a vault path), or 'none' to export without one
+export const TEMPLATE_KEY = 'hugo_template';
+
+// Placeholders of export templates, replaced with the note's values: {{title}}, {{slug}}, {{date}} (YYYY-MM-DD),
+// {{tags}} (comma-separated), {{summary}} ('summary' or 'description' front matter, else the first paragraph) and
+// {{body}} (the converted note body)
+export const TEMPLATE_PLACEHOLDERS = ['title', 'slug', 'date', 'tags', 'summary', 'body'];
+
+// A Hugo site the vault publishes to, with its own directories, link prefix, front matter rules and publish set rules
+export interface HugoProfile {
+    name: string;
+    postsDirectory: string;
+    staticImagesDirectory: string;
+    // Section URL prefix of exported notes, used when rewriting links (e.g. '/posts/')
+    linkPrefix: string;
+    linkStyle: LinkStyle;
+    // Vault folder -> Hugo section below the content directory (the folder holding postsDirectory), e.g.
+    // { 'Notes/Recipes/**': 'recipes' }. A trailing '/**' mirrors nested folders into the section, otherwise
+    // every note below the folder goes straight into it. The most specific folder wins; other notes go to postsDirectory.
+    sectionRoutes: Record<string, string>;
+    languageMode: LanguageMode;
+    // Language of notes without LANGUAGE_KEY; its pages have no language suffix or URL prefix (Hugo's defaultContentLanguage)
+    defaultLanguage: string;
+    // Hugo site root, the working directory of hooks ('' derives it from postsDirectory)
+    siteRoot: string;
+    // Read the site's hugo.toml / hugo.yaml / config.* (and config/_default/) for baseURL, static directories,
+    // permalinks and languages, which then decide image and link URLs
+    useSiteConfig: boolean;
+    // Shell commands run one after another once a batch export has written files, e.g. 'hugo --minify'
+    postExportHooks: string[];
+    frontMatterFormat: FrontMatterFormat;
+    // Front matter keys to rename, e.g. { created: 'date', updated: 'lastmod' }
+    frontMatterKeyMap: Record<string, string>;
+    // If non-empty, only these keys are written (applied after renaming)
+    frontMatterAllowKeys: string[];
+    // Keys that are never written (applied after renaming)
+    frontMatterDropKeys: string[];
+    dateSource: DateSource;
+    lastmodSource: LastmodSource;
+    // Time zone of generated dates and of front matter timestamps: '' = UTC, 'local' = this computer's, or an IANA name like 'Europe/Paris'
+    timezone: string;
+    // Write a generated 'date' back into the note's front matter, so it never changes again
+    pinDates: boolean;
+    // Start from the front matter of the site's archetype for the note's section (archetypes/<section>.md, else default.md)
+    useArchetypes: boolean;
+    // Vault path of the note wrapping every exported body, using TEMPLATE_PLACEHOLDERS ('' = body only)
+    exportTemplate: string;
+    // Add inline #tags from the note body to the 'tags' front matter
+    collectInlineTags: boolean;
+    nestedTagMode: NestedTagMode;
+    // Turn 'publish: true/false' (publishFlagKey) into Hugo's 'draft: false/true'
+    draftFromPublish: boolean;
+    // Turn Obsidian 'aliases' (alternative names) into Hugo 'aliases' (redirect URLs)
+    aliasesToUrls: boolean;
+    // Publish set rules: a note is published if it matches any of them (and isn't opted out via the flag)
+    publishFolders: string[];
+    publishTags: string[];
+    // Select notes whose publishFlagKey front matter is true
+    publishByFlag: boolean;
+    publishFlagKey: string;
+    // Saved search, e.g. 'path:Blog tag:#post -draft' (all terms must match)
+    publishSearch: string;
+    // Also export notes marked publishable that selected notes link to
+    publishFollowLinks: boolean;
+}
+
+// Interface defining the structure of plugin settings
+export interface ObsidianHugoExportSettings {
+    profiles: HugoProfile[];
+    // Name of the profile used for notes that don't pick one with PROFILE_KEY
+    defaultProfile: string;
+    outputMode: OutputMode;
+    attachmentNaming: AttachmentNaming;
+    // Folders next to the static images directory that non-image attachments are copied into ('' = the images directory)
+    attachmentFolders: Record<Exclude<AttachmentKind, 'image'>, string>;
+    // Shortcodes that render embedded media, called with 'src' and 'title' ('' = HTML tags)
+    mediaShortcodes: Record<'video' | 'audio' | 'pdf', string>;
+    // Embed ![[file.pdf]] in the page (true) or turn it into a download link (false)
+    embedPdfs: boolean;
+    unresolvedLinkPolicy: UnresolvedLinkPolicy;
+    calloutStyle: CalloutStyle;
+    // Shortcode used for callout types without an entry in calloutTypeShortcodes
+    calloutShortcode: string;
+    // Per-type shortcode names, e.g. { warning: 'alert' }
+    calloutTypeShortcodes: Record<string, string>;
+    // Render foldable callouts ('[!type]-' / '[!type]+') as <details> blocks regardless of calloutStyle
+    foldableCalloutsAsDetails: boolean;
+    // How deep ![[Note]] embeds are followed inside embedded notes
+    maxEmbedDepth: number;
+    // Obsidian-specific markdown converters
+    convertHighlights: boolean;
+    stripComments: boolean;
+    mathStyle: MathStyle;
+    mathShortcode: string;
+    mermaidAsShortcode: boolean;
+    // Map custom task states ([-], [/], [>], ...) onto the two Hugo knows
+    normalizeTaskStates: boolean;
+    // Turn ^[inline footnotes] into regular [^label] footnotes
+    convertInlineFootnotes: boolean;
+    // Headings carrying one of these tags are removed with their section, e.g. '## Notes #private'
+    privateSectionTags: string[];
+    // Lines that start and end a block removed from the export ('' disables)
+    privateBlockStart: string;
+    privateBlockEnd: string;
+    // Notes with one of these tags are never exported, embedded or linked to
+    confidentialTags: string[];
+    // Number of notes exported at the same time
+    exportConcurrency: number;
+    // Seconds a post-export hook may run before it is stopped
+    hookTimeout: number;
+    // Folder backups of overwritten and deleted files are kept in ('' = 'backups' in the plugin's folder)
+    backupDirectory: string;
+    // Number of past exports whose backups are kept (and can be undone one after another); 0 turns backups off
+    keepBackups: number;
+    // Vault path of the note the validation report is written to
+    validationReportPath: string;
+    // Validate notes before exporting them and abort when errors are found
+    strictMode: boolean;
+    // Re-export publishable notes when they change (watch mode)
+    autoExport: boolean;
+    // Seconds of quiet after the last change before auto-export runs
+    autoExportDelay: number;
+    debugMode: boolean;
+}
+
+// Default values of a new profile
+export const DEFAULT_PROFILE: HugoProfile = {
+    name: 'Default',
+    // Sensible default, user should change this
+    postsDirectory: '~/hugo-blog/content/posts',
+    staticImagesDirectory: '~/hugo-blog/static/images',
+    linkPrefix: '/posts/',
+    linkStyle: 'url',
+    sectionRoutes: {},
+    languageMode: 'none',
+    defaultLanguage: 'en',
+    siteRoot: '',
+    useSiteConfig: true,
+    postExportHooks: [],
+    frontMatterFormat: 'yaml',
+    frontMatterKeyMap: { created: 'date', updated: 'lastmod' },
+    frontMatterAllowKeys: [],
+    frontMatterDropKeys: [],
+    dateSource: 'first-export',
+    lastmodSource: 'none',
+    timezone: '',
+    pinDates: false,
+    useArchetypes: false,
+    exportTemplate: '',
+    collectInlineTags: true,
+    nestedTagMode: 'full',
+    draftFromPublish: true,
+    aliasesToUrls: true,
+    publishFolders: [],
+    publishTags: [],
+    publishByFlag: true,
+    publishFlagKey: 'publish',
+    publishSearch: '',
+    publishFollowLinks: false,
+};
+
+// Default settings values
+export const DEFAULT_SETTINGS: ObsidianHugoExportSettings = {
+    profiles: [DEFAULT_PROFILE],
+    defaultProfile: DEFAULT_PROFILE.name,
+    outputMode: 'flat',
+    attachmentNaming: 'basename',
+    attachmentFolders: { video: 'videos', audio: 'audio', pdf: 'pdfs', file: 'files' },
+    mediaShortcodes: { video: '', audio: '', pdf: '' },
+    embedPdfs: true,
+    unresolvedLinkPolicy: 'text',
+    calloutStyle: 'blockquote',
+    calloutShortcode: 'callout',
+    calloutTypeShortcodes: {},
+    foldableCalloutsAsDetails: true,
+    maxEmbedDepth: 5,
+    convertHighlights: true,
+    stripComments: true,
+    mathStyle: 'passthrough',
+    mathShortcode: 'math',
+    mermaidAsShortcode: false,
+    normalizeTaskStates: true,
+    convertInlineFootnotes: true,
+    privateSectionTags: ['private'],
+    privateBlockStart: '<!-- private -->',
+    privateBlockEnd: '<!-- /private -->',
+    confidentialTags: ['confidential'],
+    exportConcurrency: 4,
+    hookTimeout: 120,
+    backupDirectory: '',
+    keepBackups: 5,
+    validationReportPath: 'Hugo Export Report.md',
+    strictMode: false,
+    autoExport: false,
+    autoExportDelay: 5,
+    debugMode: false
+};
+
+// Turns saved plugin data into complete settings: fills in defaults and migrates settings saved before profiles existed
+export function normalizeSettings(data: Record<string, any> | null | undefined): ObsidianHugoExportSettings {
+    const saved = data || {};
+    const settings: ObsidianHugoExportSettings = Object.assign({}, DEFAULT_SETTINGS, saved);
+    if (!Array.isArray(saved.profiles)) {
+        // Settings saved before profiles existed: the site specific keys become the 'Default' profile
+        const profile: Record<string, any> = { ...DEFAULT_PROFILE };
+        for (const key of Object.keys(DEFAULT_PROFILE)) {
+            if (key !== 'name' && key in saved) {
+                profile[key] = saved[key];
+                delete (settings as Record<string, any>)[key];
+            }
+        }
+        settings.profiles = [profile as HugoProfile];
+    }
+    // Nested settings get keys added after they were saved (and never share DEFAULT_SETTINGS)
+    settings.attachmentFolders = { ...DEFAULT_SETTINGS.attachmentFolders, ...saved.attachmentFolders };
+    settings.mediaShortcodes = { ...DEFAULT_SETTINGS.mediaShortcodes, ...saved.mediaShortcodes };
+    // Fill in keys added to profiles after they were saved (and never share DEFAULT_PROFILE)
+    settings.profiles = settings.profiles.map(profile => Object.assign({}, DEFAULT_PROFILE, profile));
+    return settings;
+}
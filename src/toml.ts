@@ -0,0 +1,360 @@
+// Reader for the TOML files of a Hugo site (hugo.toml, archetypes). Covers TOML 1.0: tables, arrays of tables,
+// dotted keys, inline tables, all string kinds, numbers and dates. Offset date-times and local dates become Dates
+// (like js-yaml's timestamps), local date-times and times stay strings.
+
+// Matches a TOML date-time, local date-time, local date or local time at the start of the input
+const DATE_TIME_REGEX = /^(\d{4}-\d{2}-\d{2})(?:[Tt ](\d{2}:\d{2}:\d{2}(?:\.\d+)?)(Z|z|[+-]\d{2}:\d{2})?)?|^\d{2}:\d{2}:\d{2}(?:\.\d+)?/;
+// Characters a number (or inf/nan) is made of
+const NUMBER_REGEX = /^[+-]?(?:0x[0-9A-Fa-f_]+|0o[0-7_]+|0b[01_]+|inf|nan|[0-9_]+(?:\.[0-9_]+)?(?:[eE][+-]?[0-9_]+)?)/;
+
+// A TOML table: key -> string, number, boolean, Date, array or table
+export type TomlTable = Record<string, unknown>;
+
+// Parses a TOML document; throws an Error with the line number on invalid input
+export function parseToml(text: string): TomlTable {
+    return new TomlParser(text).parse();
+}
+
+// Recursive descent over the document, keeping track of the table that key/value pairs go into
+class TomlParser {
+    private text: string;
+    private pos = 0;
+    // Tables defined with [header] or implicitly by dotted keys, which can't be redefined with a header
+    private definedTables = new Set<unknown>();
+    // Arrays made by [[header]]s; arrays written as values ('a = []') can't be extended by one
+    private tableArrays = new Set<unknown>();
+
+    constructor(text: string) {
+        // A byte order mark is not part of the document
+        this.text = text.replace(/^\uFEFF/, '');
+    }
+
+    parse(): TomlTable {
+        const root: TomlTable = {};
+        let table = root;
+        for (;;) {
+            this.skipWhitespaceAndComments(true);
+            if (this.pos >= this.text.length) {
+                return root;
+            }
+            if (this.text.startsWith('[[', this.pos)) {
+                this.pos += 2;
+                const keys = this.parseKey();
+                this.expect(']]');
+                const parent = this.getTable(root, keys.slice(0, -1));
+                const last = keys[keys.length - 1];
+                if (parent[last] === undefined) {
+                    parent[last] = [];
+                    this.tableArrays.add(parent[last]);
+                }
+                const tables = parent[last];
+                if (!Array.isArray(tables) || !this.tableArrays.has(tables)) {
+                    this.fail(`'${keys.join('.')}' is not an array of tables`);
+                }
+                table = {};
+                tables.push(table);
+            } else if (this.text[this.pos] === '[') {
+                this.pos++;
+                const keys = this.parseKey();
+                this.expect(']');
+                table = this.getTable(root, keys);
+                if (this.definedTables.has(table)) {
+                    this.fail(`Table '${keys.join('.')}' is defined twice`);
+                }
+                this.definedTables.add(table);
+            } else {
+                this.parseKeyValue(table);
+            }
+            this.expectLineEnd();
+        }
+    }
+
+    // Parses 'key = value' into a table, creating the tables of a dotted key
+    private parseKeyValue(table: TomlTable) {
+        const keys = this.parseKey();
+        this.skipWhitespace();
+        this.expect('=');
+        this.skipWhitespace();
+        const value = this.parseValue();
+        const parent = this.getTable(table, keys.slice(0, -1), true);
+        const last = keys[keys.length - 1];
+        if (last in parent) {
+            this.fail(`Key '${keys.join('.')}' is defined twice`);
+        }
+        parent[last] = value;
+    }
+
+    // Parses a (dotted) key into its parts
+    private parseKey(): string[] {
+        const keys: string[] = [];
+        for (;;) {
+            this.skipWhitespace();
+            const char = this.text[this.pos];
+            if (char === '"') {
+                keys.push(this.parseBasicString());
+            } else if (char === "'") {
+                keys.push(this.parseLiteralString());
+            } else {
+                const match = this.text.slice(this.pos).match(/^[A-Za-z0-9_-]+/);
+                if (!match) {
+                    this.fail('Expected a key');
+                }
+                keys.push(match[0]);
+                this.pos += match[0].length;
+            }
+            this.skipWhitespace();
+            if (this.text[this.pos] !== '.') {
+                return keys;
+            }
+            this.pos++;
+        }
+    }
+
+    // Follows a key path from a table, creating missing tables; the last table of an array of tables is used
+    private getTable(table: TomlTable, keys: string[], implicit = false): TomlTable {
+        let current = table;
+        for (const key of keys) {
+            if (current[key] === undefined) {
+                current[key] = {};
+                if (implicit) {
+                    this.definedTables.add(current[key]);
+                }
+            }
+            const value = current[key];
+            const next = Array.isArray(value) && this.tableArrays.has(value) ? value[value.length - 1] : value;
+            if (typeof next !== 'object' || next === null || next instanceof Date || Array.isArray(next)) {
+                this.fail(`'${key}' is not a table`);
+            }
+            current = next as TomlTable;
+        }
+        return current;
+    }
+
+    // Parses any value
+    private parseValue(): unknown {
+        const rest = this.text.slice(this.pos);
+        if (rest.startsWith('"""')) {
+            return this.parseMultilineString('"""');
+        }
+        if (rest.startsWith("'''")) {
+            return this.parseMultilineString("'''");
+        }
+        switch (rest[0]) {
+            case '"':
+                return this.parseBasicString();
+            case "'":
+                return this.parseLiteralString();
+            case '[':
+                return this.parseArray();
+            case '{':
+                return this.parseInlineTable();
+        }
+        const bool = rest.match(/^(true|false)(?![A-Za-z0-9_-])/);
+        if (bool) {
+            this.pos += bool[0].length;
+            return bool[1] === 'true';
+        }
+        const dateTime = rest.match(DATE_TIME_REGEX);
+        if (dateTime) {
+            this.pos += dateTime[0].length;
+            // Offset date-times and dates are instants (dates at midnight UTC); anything else has no time zone
+            if (dateTime[1] && (dateTime[3] || !dateTime[2])) {
+                return new Date(dateTime[0].replace(' ', 'T'));
+            }
+            return dateTime[0];
+        }
+        const number = rest.match(NUMBER_REGEX);
+        if (number) {
+            this.pos += number[0].length;
+            return this.toNumber(number[0]);
+        }
+        this.fail('Expected a value');
+    }
+
+    // Converts the text of a TOML number
+    private toNumber(text: string): number {
+        const clean = text.replace(/_/g, '');
+        const sign = clean.startsWith('-') ? -1 : 1;
+        const unsigned = clean.replace(/^[+-]/, '');
+        if (unsigned === 'inf') {
+            return sign * Infinity;
+        }
+        if (unsigned === 'nan') {
+            return NaN;
+        }
+        const prefixed = unsigned.match(/^0([xob])(.*)$/);
+        if (prefixed) {
+            return parseInt(prefixed[2], { x: 16, o: 8, b: 2 }[prefixed[1] as 'x' | 'o' | 'b']);
+        }
+        return Number(clean);
+    }
+
+    // Parses "..." with escapes
+    private parseBasicString(): string {
+        this.pos++;
+        let value = '';
+        for (;;) {
+            const char = this.text[this.pos];
+            if (char === undefined || char === '\n') {
+                this.fail('Unterminated string');
+            }
+            this.pos++;
+            if (char === '"') {
+                return value;
+            }
+            value += char === '\\' ? this.parseEscape() : char;
+        }
+    }
+
+    // Parses '...' (no escapes)
+    private parseLiteralString(): string {
+        const end = this.text.indexOf("'", this.pos + 1);
+        const newline = this.text.indexOf('\n', this.pos + 1);
+        if (end === -1 || (newline !== -1 && newline < end)) {
+            this.fail('Unterminated string');
+        }
+        const value = this.text.slice(this.pos + 1, end);
+        this.pos = end + 1;
+        return value;
+    }
+
+    // Parses """...""" (with escapes and line-ending backslashes) or '''...''' (raw)
+    private parseMultilineString(delimiter: string): string {
+        this.pos += 3;
+        // A newline right after the opening delimiter is not part of the string
+        if (this.text.startsWith('\r\n', this.pos)) {
+            this.pos += 2;
+        } else if (this.text[this.pos] === '\n') {
+            this.pos++;
+        }
+        let value = '';
+        for (;;) {
+            if (this.pos >= this.text.length) {
+                this.fail('Unterminated string');
+            }
+            if (this.text.startsWith(delimiter, this.pos)) {
+                // Up to two quotes right before the closing delimiter belong to the string
+                let quotes = 0;
+                while (quotes < 2 && this.text[this.pos + 3 + quotes] === delimiter[0]) {
+                    quotes++;
+                }
+                value += delimiter[0].repeat(quotes);
+                this.pos += 3 + quotes;
+                return value;
+            }
+            const char = this.text[this.pos++];
+            if (char === '\\' && delimiter === '"""') {
+                const lineEnd = this.text.slice(this.pos).match(/^[ \t]*\r?\n\s*/);
+                value += lineEnd ? '' : this.parseEscape();
+                if (lineEnd) {
+                    this.pos += lineEnd[0].length;
+                }
+            } else {
+                value += char;
+            }
+        }
+    }
+
+    // Parses the escape after a backslash
+    private parseEscape(): string {
+        const char = this.text[this.pos++];
+        const simple: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', e: '\x1b', '"': '"', '\\': '\\' };
+        if (char in simple) {
+            return simple[char];
+        }
+        const length = char === 'u' ? 4 : char === 'U' ? 8 : 0;
+        const hex = this.text.slice(this.pos, this.pos + length);
+        if (length === 0 || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+            this.fail(`Invalid escape '\\${char}'`);
+        }
+        this.pos += length;
+        return String.fromCodePoint(parseInt(hex, 16));
+    }
+
+    // Parses [a, b, ...], which may span lines and contain comments
+    private parseArray(): unknown[] {
+        this.pos++;
+        const values: unknown[] = [];
+        for (;;) {
+            this.skipWhitespaceAndComments(true);
+            if (this.text[this.pos] === ']') {
+                this.pos++;
+                return values;
+            }
+            values.push(this.parseValue());
+            this.skipWhitespaceAndComments(true);
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+            } else if (this.text[this.pos] !== ']') {
+                this.fail("Expected ',' or ']' in array");
+            }
+        }
+    }
+
+    // Parses { key = value, ... } on a single line
+    private parseInlineTable(): TomlTable {
+        this.pos++;
+        const table: TomlTable = {};
+        this.skipWhitespace();
+        if (this.text[this.pos] === '}') {
+            this.pos++;
+            return table;
+        }
+        for (;;) {
+            this.parseKeyValue(table);
+            this.skipWhitespace();
+            const char = this.text[this.pos++];
+            if (char === '}') {
+                return table;
+            }
+            if (char !== ',') {
+                this.fail("Expected ',' or '}' in inline table");
+            }
+        }
+    }
+
+    // Skips spaces and tabs
+    private skipWhitespace() {
+        while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') {
+            this.pos++;
+        }
+    }
+
+    // Skips whitespace and comments, and newlines too if allowed
+    private skipWhitespaceAndComments(newlines: boolean) {
+        for (;;) {
+            this.skipWhitespace();
+            const char = this.text[this.pos];
+            if (char === '#') {
+                const end = this.text.indexOf('\n', this.pos);
+                this.pos = end === -1 ? this.text.length : end;
+            } else if (newlines && (char === '\n' || char === '\r')) {
+                this.pos++;
+            } else {
+                return;
+            }
+        }
+    }
+
+    // Only whitespace and a comment may follow a key/value pair or table header on its line
+    private expectLineEnd() {
+        this.skipWhitespaceAndComments(false);
+        if (this.pos < this.text.length && !/^\r?\n/.test(this.text.slice(this.pos, this.pos + 2))) {
+            this.fail('Expected the end of the line');
+        }
+    }
+
+    // Consumes the given text or fails
+    private expect(token: string) {
+        if (!this.text.startsWith(token, this.pos)) {
+            this.fail(`Expected '${token}'`);
+        }
+        this.pos += token.length;
+    }
+
+    // Throws an error pointing at the current line
+    private fail(message: string): never {
+        const line = this.text.slice(0, this.pos).split('\n').length;
+        throw new Error(`Invalid TOML at line ${line}: ${message}`);
+    }
+}
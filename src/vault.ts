@@ -0,0 +1,81 @@
+// The exporter only sees the vault through this interface, so the same pipeline runs inside Obsidian
+// (ObsidianVault, backed by the metadata cache) and on a plain directory (NodeVault, used by the CLI).
+
+// Inline tag as Obsidian recognizes it: '#' after whitespace (or at line start), no punctuation inside
+export const INLINE_TAG_REGEX = /(?:^|\s)#([^\s#!"$%&'()*+,.:;<=>?@^`{|}~[\]\\]+)/g;
+
+// A file in the vault; Obsidian's TFile has this shape
+export interface VaultFile {
+    // Vault-relative path with forward slashes, e.g. 'Blog/My Note.md'
+    path: string;
+    // File name with extension
+    name: string;
+    // File name without extension
+    basename: string;
+    extension: string;
+}
+
+// Character offsets of a heading section or block inside a note ('end' is null when it runs to the end of the note)
+export interface SubpathRange {
+    start: number;
+    end: number | null;
+}
+
+// What the exporter needs to know about the vault
+export interface ExportVault {
+    getMarkdownFiles(): VaultFile[];
+    // The file at a vault path, or null if there is none (folders don't count)
+    getFileByPath(filePath: string): VaultFile | null;
+    read(file: VaultFile): Promise<string>;
+    // Parsed front matter, or undefined if the note has none
+    getFrontMatter(file: VaultFile): Record<string, any> | undefined;
+    // Front matter and inline tags with their '#', front matter first
+    getTags(file: VaultFile): string[];
+    // Resolves a link path the way Obsidian does (relative paths, shortest unique path)
+    getFirstLinkpathDest(linkpath: string, sourcePath: string): VaultFile | null;
+    // Vault paths of the files a note links to or embeds
+    getLinkedPaths(file: VaultFile): string[];
+    // Locates '#Heading' or '#^block-id' inside a note
+    resolveSubpath(file: VaultFile, subpath: string): SubpathRange | null;
+    // Absolute file system path of a vault file
+    getFullPath(file: VaultFile): string;
+    // Creation and modification time of a file, in milliseconds since the epoch
+    getFileTimes(file: VaultFile): Promise<{ created: number, modified: number }>;
+    // Sets a front matter key of a note, adding front matter if the note has none
+    setFrontMatterValue(file: VaultFile, key: string, value: string): Promise<void>;
+}
+
+// Splits 'Note#Heading' into its path and subpath ('#Heading'), like Obsidian's parseLinktext
+export function parseLinktext(linktext: string): { path: string, subpath: string } {
+    const index = linktext.indexOf('#');
+    if (index === -1) {
+        return { path: linktext, subpath: '' };
+    }
+    return { path: linktext.substring(0, index), subpath: linktext.substring(index) };
+}
+
+// Reads 'aliases' (or 'alias') from front matter as a list, like Obsidian's parseFrontMatterAliases
+export function parseFrontMatterAliases(frontMatter: Record<string, any> | null | undefined): string[] | null {
+    if (!frontMatter) {
+        return null;
+    }
+    const value = frontMatter.aliases ?? frontMatter.alias;
+    let aliases: string[] = [];
+    if (Array.isArray(value)) {
+        aliases = value.filter(alias => alias !== null && alias !== undefined).map(alias => String(alias));
+    } else if (typeof value === 'string') {
+        aliases = value.split(',');
+    }
+    aliases = aliases.map(alias => alias.trim()).filter(alias => alias);
+    return aliases.length > 0 ? aliases : null;
+}
+
+// Normalizes a vault path (forward slashes, no duplicate/leading/trailing slashes), like Obsidian's normalizePath
+export function normalizePath(vaultPath: string): string {
+    const normalized = vaultPath
+        .replace(/[\\/]+/g, '/')
+        .replace(/\u00A0|\u202F/g, ' ')
+        .replace(/^\/+|\/+$/g, '')
+        .normalize('NFC');
+    return normalized || '/';
+}
@@ -0,0 +1,311 @@
+// Runs the bundled CLI (cli.js, built by `npm run build`) against the fixture vault and compares the
+// output with test/fixtures/expected (and test/fixtures/expected-<profile> for the other profiles; the Site
+// profile exports into a copy of the Hugo site in test/fixtures/site). After changing the pipeline on purpose,
+// regenerate the expected files with:
+// node cli.js --vault test/fixtures/vault --site test/fixtures/expected
+// node cli.js --vault test/fixtures/vault --site test/fixtures/expected-docs --profile Docs
+// cp -r test/fixtures/site test/fixtures/expected-site
+// node cli.js --vault test/fixtures/vault --site test/fixtures/expected-site --profile Site
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const vault = path.join(root, 'test', 'fixtures', 'vault');
+const expected = path.join(root, 'test', 'fixtures', 'expected');
+const expectedDocs = path.join(root, 'test', 'fixtures', 'expected-docs');
+const hugoSite = path.join(root, 'test', 'fixtures', 'site');
+const expectedSite = path.join(root, 'test', 'fixtures', 'expected-site');
+
+// Runs cli.js with the given arguments
+function runCli(...args) {
+    return spawnSync(process.execPath, [path.join(root, 'cli.js'), ...args], { encoding: 'utf8' });
+}
+
+// Relative paths of every file below a directory, sorted
+function listFiles(dir, prefix = '') {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const relative = path.join(prefix, entry.name);
+        return entry.isDirectory() ? listFiles(path.join(dir, entry.name), relative) : [relative];
+    }).sort();
+}
+
+// Checks that a site has exactly the files of an expected site, byte for byte
+function assertSameSite(site, expectedSite) {
+    assert.deepEqual(listFiles(site), listFiles(expectedSite));
+    for (const file of listFiles(expectedSite)) {
+        assert.ok(fs.readFileSync(path.join(site, file)).equals(fs.readFileSync(path.join(expectedSite, file))), `${file} differs`);
+    }
+}
+
+// A fresh site directory for one test
+function tempSite(t) {
+    const site = fs.mkdtempSync(path.join(os.tmpdir(), 'hugo-export-'));
+    t.after(() => fs.rmSync(site, { recursive: true, force: true }));
+    return site;
+}
+
+// A copy of the fixture vault inside a test's site directory, with settings changed, so exports don't write the
+// plugin's manifest and backups into the fixture
+function copyVault(site, settings = {}) {
+    const vaultCopy = path.join(site, 'vault');
+    fs.cpSync(vault, vaultCopy, { recursive: true });
+    const settingsPath = path.join(pluginDir(vaultCopy), 'data.json');
+    fs.writeFileSync(settingsPath, JSON.stringify({ ...JSON.parse(fs.readFileSync(settingsPath, 'utf8')), ...settings }));
+    return vaultCopy;
+}
+
+// The plugin folder of a vault, holding its settings, manifest and backups
+function pluginDir(vaultDir) {
+    return path.join(vaultDir, '.obsidian', 'plugins', 'hugo-export');
+}
+
+test('exports the publish set exactly like the expected site', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', copyVault(site), '--site', path.join(site, 'out'));
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /Exported 9\/9 files\./);
+    assert.match(result.stderr, /Unresolved link \[\[Missing Note\]\]/);
+    // Draft Idea is outside the publish set, so it never gets a page to link to
+    assert.match(result.stderr, /Unresolved link \[\[Draft Idea\]\]: 'Notes\/Draft Idea\.md' is not in the publish set/);
+
+    assertSameSite(path.join(site, 'out'), expected);
+});
+
+test('writes relrefs for links between notes of a relref profile', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', copyVault(site), '--site', path.join(site, 'out'), '--profile', 'Docs');
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /Exported 3\/3 files\./);
+    // A relref to a page outside the profile's publish set would break the Hugo build
+    assert.match(result.stderr, /Unresolved link \[\[Hello World\]\]: 'Blog\/Hello World\.md' is not in the publish set/);
+    assertSameSite(path.join(site, 'out'), expectedDocs);
+});
+
+test('writes links of a relref profile to notes outside its publish set as plain text', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', copyVault(site, { unresolvedLinkPolicy: 'keep' }), '--site', path.join(site, 'out'), '--profile', 'Docs');
+    assert.equal(result.status, 0, result.stderr);
+    const guide = fs.readFileSync(path.join(site, 'out', 'content', 'docs', 'Guide.md'), 'utf8');
+    assert.match(guide, /^The blog's Hello World is not part of the docs/m);
+});
+
+test('exports only the notes named on the command line', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', copyVault(site), '--site', path.join(site, 'out'), 'Second Post');
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(listFiles(path.join(site, 'out')), [path.join('content', 'posts', 'Second-Post.md')]);
+});
+
+test('links notes exported together even if the publish rules skip them', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', copyVault(site), '--site', path.join(site, 'out'), 'Hello World', 'Draft Idea');
+    assert.equal(result.status, 0, result.stderr);
+    assert.doesNotMatch(result.stderr, /Draft Idea/);
+    const helloWorld = fs.readFileSync(path.join(site, 'out', 'content', 'posts', 'Hello-World.md'), 'utf8');
+    assert.match(helloWorld, /, or \[Draft Idea\]\(\/posts\/draft-idea\/\) \(not Missing Note\)\./);
+});
+
+test('skips unchanged notes when a manifest is kept', t => {
+    const site = tempSite(t);
+    const manifest = path.join(site, 'manifest.json');
+    assert.equal(runCli('--vault', vault, '--site', site, '--manifest', manifest).status, 0);
+    const result = runCli('--vault', vault, '--site', site, '--manifest', manifest);
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /Exported 9\/9 files \(9 unchanged\)\./);
+});
+
+test('exports into a Hugo site with the directories, URLs and archetypes of its config', t => {
+    const site = tempSite(t);
+    const output = path.join(site, 'out');
+    fs.cpSync(hugoSite, output, { recursive: true });
+    const result = runCli('--vault', copyVault(site), '--site', output, '--profile', 'Site');
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /Exported 3\/3 files\./);
+    assertSameSite(output, expectedSite);
+});
+
+test('fails exports when the Hugo config cannot be read', t => {
+    const site = tempSite(t);
+    const output = path.join(site, 'out');
+    fs.cpSync(hugoSite, output, { recursive: true });
+    fs.writeFileSync(path.join(output, 'config', '_default', 'params.toml'), 'author = "me"\nauthor = "you"\n');
+    const result = runCli('--vault', copyVault(site), '--site', output, '--profile', 'Site');
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Could not read Hugo config .*params\.toml: Invalid TOML at line 2: Key 'author' is defined twice/);
+    assert.ok(!fs.existsSync(path.join(output, 'content')));
+});
+
+test('reports a missing export template when validating', t => {
+    const site = tempSite(t);
+    const vaultCopy = copyVault(site);
+    fs.rmSync(path.join(vaultCopy, 'Templates', 'Post.md'));
+    const result = runCli('--vault', vaultCopy, '--site', path.join(site, 'out'), '--profile', 'Site', '--validate');
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /^Site\/Release Notes\.md: error: .*Templates\/Post\.md/m);
+});
+
+test('undoes the last export', t => {
+    const site = tempSite(t);
+    const vaultCopy = copyVault(site, { keepBackups: 5 });
+    const output = path.join(site, 'out');
+    const post = path.join(output, 'content', 'posts', 'Second-Post.md');
+
+    assert.equal(runCli('--vault', vaultCopy, '--site', output, 'Second Post').status, 0);
+    fs.writeFileSync(post, 'edited');
+    assert.equal(runCli('--vault', vaultCopy, '--site', output).status, 0);
+    const result = runCli('--vault', vaultCopy, '--site', output, '--undo');
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /1 file\(s\) restored, 13 removed\./);
+    assert.equal(fs.readFileSync(post, 'utf8'), 'edited');
+    assert.deepEqual(listFiles(output), [path.join('content', 'posts', 'Second-Post.md')]);
+});
+
+// Writes a plugin manifest recording an earlier export of the plugin into a site, and returns it
+function writePluginManifest(vaultDir, output) {
+    const pluginManifest = {
+        notes: { Blog: { 'Blog/Old Post.md': { outputs: [path.join(output, 'content', 'posts', 'Old-Post.md')], exportedAt: '2024-01-01T00:00:00.000Z', firstExportedAt: '2024-01-01T00:00:00.000Z' } } },
+        attachments: {},
+        orphans: [path.join(output, 'static', 'images', 'old.png')],
+    };
+    fs.writeFileSync(path.join(pluginDir(vaultDir), 'export-manifest.json'), JSON.stringify(pluginManifest));
+    return pluginManifest;
+}
+
+test('keeps its manifest and backups apart from the plugin', t => {
+    const site = tempSite(t);
+    const vaultCopy = copyVault(site, { keepBackups: 5 });
+    const output = path.join(site, 'out');
+    const manifestPath = path.join(pluginDir(vaultCopy), 'export-manifest.json');
+    const pluginManifest = writePluginManifest(vaultCopy, output);
+
+    assert.equal(runCli('--vault', vaultCopy, '--site', output).status, 0);
+    assert.deepEqual(JSON.parse(fs.readFileSync(manifestPath, 'utf8')), pluginManifest);
+    assert.ok(!fs.existsSync(path.join(pluginDir(vaultCopy), 'backups')));
+    assert.equal(fs.readdirSync(path.join(pluginDir(vaultCopy), 'cli-backups')).length, 1);
+
+    const result = runCli('--vault', vaultCopy, '--site', output, '--undo');
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(JSON.parse(fs.readFileSync(manifestPath, 'utf8')), pluginManifest);
+    assert.deepEqual(listFiles(output), []);
+
+    // The plugin's manifest records the plugin's own paths, not moved ones
+    const rebased = runCli('--vault', vaultCopy, '--site', output, '--manifest', manifestPath);
+    assert.equal(rebased.status, 2);
+    assert.match(rebased.stderr, /--site cannot be used with the plugin's manifest/);
+});
+
+test('shares the manifest and backups with the plugin when given its manifest', t => {
+    const site = tempSite(t);
+    const output = path.join(site, 'out');
+    // Without --site, so the Blog profile exports into the test's site directly
+    const settings = JSON.parse(fs.readFileSync(path.join(pluginDir(vault), 'data.json'), 'utf8'));
+    const profiles = settings.profiles.map(profile => (profile.name === 'Blog'
+        ? { ...profile, postsDirectory: path.join(output, 'content', 'posts'), staticImagesDirectory: path.join(output, 'static', 'images') }
+        : profile));
+    const vaultCopy = copyVault(site, { keepBackups: 5, profiles });
+    const manifestPath = path.join(pluginDir(vaultCopy), 'export-manifest.json');
+    const pluginManifest = writePluginManifest(vaultCopy, output);
+
+    assert.equal(runCli('--vault', vaultCopy, '--manifest', manifestPath).status, 0);
+    const exported = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    assert.deepEqual(exported.notes.Blog['Blog/Old Post.md'], pluginManifest.notes.Blog['Blog/Old Post.md']);
+    assert.ok(exported.notes.Blog['Blog/Hello World.md']);
+    // The batch journal holds the plugin's manifest, so undoing it in the plugin restores the plugin's state
+    const backups = path.join(pluginDir(vaultCopy), 'backups');
+    const [batch] = fs.readdirSync(backups);
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(backups, batch, 'journal.json'), 'utf8')).manifest, pluginManifest);
+
+    const result = runCli('--vault', vaultCopy, '--manifest', manifestPath, '--undo');
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(JSON.parse(fs.readFileSync(manifestPath, 'utf8')), pluginManifest);
+    assert.deepEqual(listFiles(output), []);
+});
+
+test('dates undated notes the same on every run', t => {
+    const site = tempSite(t);
+    const vaultCopy = copyVault(site);
+    fs.writeFileSync(path.join(vaultCopy, 'Blog', 'Undated.md'), 'No date in this one.\n');
+    const manifestPath = path.join(site, 'manifest.json');
+    const exportUndated = (output, ...args) => {
+        const result = runCli('--vault', vaultCopy, '--site', output, ...args, 'Blog/Undated.md');
+        assert.equal(result.status, 0, result.stderr);
+        return fs.readFileSync(path.join(output, 'content', 'posts', 'Undated.md'), 'utf8');
+    };
+
+    const first = exportUndated(path.join(site, 'first'), '--manifest', manifestPath);
+    assert.ok(fs.existsSync(manifestPath));
+    // Again from the manifest the first run saved, and once more without any manifest
+    assert.equal(exportUndated(path.join(site, 'second'), '--manifest', manifestPath), first);
+    assert.equal(exportUndated(path.join(site, 'third')), first);
+});
+
+test('exports each language into its own content directory', t => {
+    const site = tempSite(t);
+    const output = path.join(site, 'out');
+    const vaultCopy = copyVault(site);
+    const settingsPath = path.join(pluginDir(vaultCopy), 'data.json');
+    const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+    settings.profiles[0].languageMode = 'directory';
+    fs.writeFileSync(settingsPath, JSON.stringify(settings));
+    const result = runCli('--vault', vaultCopy, '--site', output, 'Greetings', 'Salutations');
+    assert.equal(result.status, 0, result.stderr);
+
+    assert.deepEqual(listFiles(output), [path.join('content', 'en', 'posts', 'Greetings.md'), path.join('content', 'fr', 'posts', 'Greetings.md')]);
+    assert.match(fs.readFileSync(path.join(output, 'content', 'fr', 'posts', 'Greetings.md'), 'utf8'), /\[le lancement\]\(\/fr\/projects\/launch\/\)/);
+});
+
+test('exports into the content and static directories of the Hugo config', t => {
+    const site = tempSite(t);
+    const output = path.join(site, 'out');
+    fs.mkdirSync(output);
+    fs.writeFileSync(path.join(output, 'hugo.toml'), 'baseURL = "https://example.org/blog/"\ncontentDir = "src/content"\nstaticDir = "assets"\n');
+    const result = runCli('--vault', copyVault(site), '--site', output);
+    assert.equal(result.status, 0, result.stderr);
+
+    const files = listFiles(output);
+    assert.ok(files.includes(path.join('src', 'content', 'posts', 'Hello-World.md')));
+    assert.ok(files.includes(path.join('assets', 'images', 'diagram.png')));
+    // Other attachment kinds go next to the images
+    assert.ok(files.includes(path.join('assets', 'videos', 'clip.mp4')));
+    assert.ok(!files.some(file => file.startsWith('content') || file.startsWith('static')));
+    const post = fs.readFileSync(path.join(output, 'src', 'content', 'posts', 'Hello-World.md'), 'utf8');
+    assert.match(post, /!\[A diagram\]\(\/blog\/images\/diagram\.png\)/);
+    assert.match(post, /\[the details\]\(\/blog\/posts\/second-post\/#details\)/);
+});
+
+test('refuses to export confidential notes', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', copyVault(site), '--site', path.join(site, 'out'), 'Secret Plans');
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Refusing to export 'Blog\/Secret Plans\.md': it is tagged #confidential/);
+    assert.ok(!fs.existsSync(path.join(site, 'out')));
+});
+
+test('leaves links to confidential notes out, even when unresolved links are kept', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', copyVault(site, { unresolvedLinkPolicy: 'keep' }), '--site', path.join(site, 'out'), 'Journal');
+    assert.equal(result.status, 0, result.stderr);
+    const journal = fs.readFileSync(path.join(site, 'out', 'content', 'posts', 'Journal.md'), 'utf8');
+    assert.match(journal, /^Write the follow-up, see \.$/m);
+    assert.doesNotMatch(journal, /secret/i);
+});
+
+test('reports broken links with their line when validating', t => {
+    const site = tempSite(t);
+    const result = runCli('--vault', vault, '--site', site, '--validate');
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /^Blog\/Hello World\.md:16: error: Link \[\[Missing Note\]\]/m);
+    assert.match(result.stderr, /warning: Link \[\[Draft Idea\]\] points to 'Notes\/Draft Idea\.md', which is not in the publish set/);
+    assert.match(result.stderr, /^Blog\/Journal\.md:12: warning: Link \[\[Secret Plans\]\] points to 'Blog\/Secret Plans\.md', which is tagged #confidential/m);
+    assert.deepEqual(listFiles(site), []);
+});
+
+test('fails on unknown notes and profiles', () => {
+    assert.equal(runCli('--vault', vault, 'No Such Note').status, 2);
+    assert.equal(runCli('--vault', vault, '--profile', 'missing').status, 2);
+});
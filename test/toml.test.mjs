@@ -0,0 +1,159 @@
+// Unit tests of the TOML reader (src/toml.ts), bundled on the fly with esbuild since it has no build of its own
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import esbuild from 'esbuild';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Bundles a TypeScript module to a temporary CommonJS file and loads it
+function loadModule(entry) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hugo-export-'));
+    try {
+        const outfile = path.join(dir, 'module.cjs');
+        esbuild.buildSync({ entryPoints: [path.join(root, entry)], bundle: true, platform: 'node', format: 'cjs', outfile, logLevel: 'silent' });
+        return createRequire(import.meta.url)(outfile);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+const { parseToml } = loadModule('src/toml.ts');
+
+test('reads keys, tables and scalar values', () => {
+    const data = parseToml([
+        '# Site settings',
+        'title = "My \\"Blog\\"\\tand \\u00e9"',
+        "path = 'C:\\Users\\me'",
+        'bare-key_1 = true',
+        '"quoted key" = false',
+        '',
+        '[numbers]',
+        'int = +1_000',
+        'negative = -17',
+        'float = 3.14',
+        'exponent = 5e+2',
+        'hex = 0xDEAD_beef',
+        'oct = 0o755',
+        'bin = 0b1101',
+        'infinity = -inf',
+        'not-a-number = nan',
+    ].join('\n'));
+    assert.deepEqual({ ...data, numbers: undefined }, {
+        title: 'My "Blog"\tand é',
+        path: 'C:\\Users\\me',
+        'bare-key_1': true,
+        'quoted key': false,
+        numbers: undefined,
+    });
+    const { infinity, 'not-a-number': nan, ...numbers } = data.numbers;
+    assert.deepEqual(numbers, { int: 1000, negative: -17, float: 3.14, exponent: 500, hex: 0xdeadbeef, oct: 0o755, bin: 13 });
+    assert.equal(infinity, -Infinity);
+    assert.ok(Number.isNaN(nan));
+});
+
+test('reads multiline strings', () => {
+    const data = parseToml([
+        'basic = """',
+        'Roses are red',
+        // An escaped quote, then two quotes of the string right before the closing ones
+        'Violets are \\"blue"""""',
+        'folded = """\\',
+        '    The quick \\',
+        '    brown fox."""',
+        "literal = '''",
+        'C:\\raw\\path',
+        "has ''quotes'''''",
+        'crlf = """\r\nline one\r\nline two"""',
+    ].join('\n'));
+    assert.equal(data.basic, 'Roses are red\nViolets are "blue""');
+    assert.equal(data.folded, 'The quick brown fox.');
+    assert.equal(data.literal, "C:\\raw\\path\nhas ''quotes''");
+    assert.equal(data.crlf, 'line one\r\nline two');
+});
+
+test('reads dotted keys, inline tables and arrays', () => {
+    const data = parseToml([
+        'site.name = "Blog"',
+        'site . "base url" = "https://example.org/"',
+        // A sub-table of a table defined by dotted keys
+        '[site.params]',
+        'point = { x = 1, y.z = 2 }',
+        'empty = {}',
+        'list = [',
+        '  1, # one',
+        '  [2, "two"],',
+        ']',
+        // A super-table after its sub-table
+        '[a.b]',
+        'c = 1',
+        '[a]',
+        'd = 2',
+    ].join('\n'));
+    assert.deepEqual(data, {
+        site: { name: 'Blog', 'base url': 'https://example.org/', params: { point: { x: 1, y: { z: 2 } }, empty: {}, list: [1, [2, 'two']] } },
+        a: { b: { c: 1 }, d: 2 },
+    });
+});
+
+test('reads arrays of tables', () => {
+    const data = parseToml([
+        '[[menu.main]]',
+        'name = "Home"',
+        '[menu.main.params]',
+        'icon = "house"',
+        '[[menu.main]]',
+        'name = "Posts"',
+        '[[menu.main.children]]',
+        'name = "Archive"',
+    ].join('\n'));
+    assert.deepEqual(data, {
+        menu: { main: [{ name: 'Home', params: { icon: 'house' } }, { name: 'Posts', children: [{ name: 'Archive' }] }] },
+    });
+});
+
+test('reads dates: instants become Dates, local date-times and times stay strings', () => {
+    const data = parseToml([
+        'offset = 1979-05-27T07:32:00-08:00',
+        'utc = 1979-05-27 07:32:00.5Z',
+        'date = 1979-05-27',
+        'local = 1979-05-27T07:32:00',
+        'time = 07:32:00',
+    ].join('\n'));
+    assert.deepEqual(data.offset, new Date('1979-05-27T15:32:00Z'));
+    assert.deepEqual(data.utc, new Date('1979-05-27T07:32:00.500Z'));
+    assert.deepEqual(data.date, new Date('1979-05-27T00:00:00Z'));
+    assert.equal(data.local, '1979-05-27T07:32:00');
+    assert.equal(data.time, '07:32:00');
+});
+
+test('ignores a byte order mark and CRLF line endings', () => {
+    assert.deepEqual(parseToml('\uFEFFa = 1\r\n[b]\r\nc = "d"\r\n'), { a: 1, b: { c: 'd' } });
+});
+
+test('rejects invalid documents with the line of the error', () => {
+    const cases = [
+        ['a = 1\na = 2', /^Invalid TOML at line 2: Key 'a' is defined twice$/],
+        ['[t]\nx = 1\n[t]', /^Invalid TOML at line 3: Table 't' is defined twice$/],
+        ['a.b = 1\n[a]', /^Invalid TOML at line 2: Table 'a' is defined twice$/],
+        ['a = 1\n[a.b]', /^Invalid TOML at line 2: 'a' is not a table$/],
+        ['a = []\n[[a]]\n', /^Invalid TOML at line 2: 'a' is not an array of tables$/],
+        ['a = [{ b = 1 }]\n[a.c]', /^Invalid TOML at line 2: 'a' is not a table$/],
+        ['\ns = "open', /^Invalid TOML at line 2: Unterminated string$/],
+        ['s = """never closed', /^Invalid TOML at line 1: Unterminated string$/],
+        ['s = "\\x41"', /^Invalid TOML at line 1: Invalid escape '\\x'$/],
+        ['a = 1 b = 2', /^Invalid TOML at line 1: Expected the end of the line$/],
+        ['a = ', /^Invalid TOML at line 1: Expected a value$/],
+        ['= 1', /^Invalid TOML at line 1: Expected a key$/],
+        ['p = { x = 1 y = 2 }', /^Invalid TOML at line 1: Expected ',' or '}' in inline table$/],
+        ['l = [1 2]', /^Invalid TOML at line 1: Expected ',' or ']' in array$/],
+        ['[table', /^Invalid TOML at line 1: Expected ']'$/],
+    ];
+    for (const [text, message] of cases) {
+        assert.throws(() => parseToml(text), { message }, JSON.stringify(text));
+    }
+});